@@ -2,7 +2,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import Database from 'better-sqlite3';
 import { openDatabase } from '../db/schema';
-import { getRank, getModules, getStats } from '../query/engine';
+import { getRank, getModules, getStats, formatModule } from '../query/engine';
 
 const MARKER_START = '<!-- claude-ex:start -->';
 const MARKER_END = '<!-- claude-ex:end -->';
@@ -46,7 +46,7 @@ export function generateClaudeMd(rootDir: string, db?: Database.Database): strin
                 const imports = mod.importsFrom.length > 0
                     ? ` \u2192 imports from: ${mod.importsFrom.join(', ')}`
                     : ' \u2192 imports from: (none \u2014 leaf dependency)';
-                lines.push(`${mod.name}/ (${mod.fileCount} files, ${mod.symbolCount} symbols)${imports}`);
+                lines.push(`${formatModule(mod, [`${mod.fileCount} files`, `${mod.symbolCount} symbols`])}${imports}`);
             }
             lines.push('');
         }
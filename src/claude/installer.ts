@@ -24,14 +24,33 @@ Use these tools via the MCP connection. They answer in <5ms.
 ### search_code
 Find symbols by name, description, or content. Results ranked by structural
 importance (PageRank). Use for any "find X" or "where is X" question.
+Pass exclude_deprecated to skip symbols whose docs mark them deprecated.
+Generated, minified and vendored files rank lower; pass include_generated to
+rank them normally.
 
 ### get_symbol
-Full context for a single symbol: its code, what it depends on, what depends
-on it, what else is in the same file. Use before modifying any symbol.
+Full context for a single symbol: its code, parsed docs (params, returns,
+throws, deprecated, examples), what it depends on, what depends on it, what
+else is in the same file. Use before modifying any symbol.
+
+### get_signature
+Just the declaration: parameters with types and defaults, return type,
+async/generator, generics and the doc summary. Use instead of get_symbol
+when you only need to know how to call something.
 
 ### get_callers
-Who calls this function/method. Use before renaming, changing signatures,
-or removing a function.
+Who calls this function/method, including this.method() calls and calls on
+typed variables; for a class, who instantiates it. Use before renaming,
+changing signatures, or removing a function.
+
+### find_references
+Every place a symbol is referenced (calls, new expressions, imports, type uses, extends/implements)
+with file, line, column and the source line. Use to jump straight to call sites.
+
+### plan_rename
+Complete edit plan for renaming a symbol: definition, imports, call sites and
+type uses with line/column, plus unverified textual matches in docs and strings,
+and collisions with existing symbols of the new name. Use before any rename.
 
 ### get_dependents
 What files are transitively affected if a file changes. Use before any
@@ -41,8 +60,18 @@ refactor that changes exports or file structure.
 What a symbol imports/uses. Understand what it needs before moving or
 modifying it.
 
+### get_type_hierarchy
+Supertypes and subtypes of a class, interface or trait (extends/implements,
+transitive). Use to find every implementation before changing an interface.
+
+### get_package_usage
+External packages the code imports, with declared versions and usage counts,
+plus local imports that resolve to nothing. Pass a package (and optionally a
+name) for every file and call site using it, e.g. axios + create.
+
 ### get_architecture
-Project overview: top symbols, module map, language breakdown.
+Project overview: top symbols, module map, language breakdown. In a monorepo each
+workspace package is a module, and packageGraph shows which packages import which.
 Use when you need to understand the overall structure.
 
 ## When to prefer MCP tools over grep
@@ -8,8 +8,9 @@ import { openDatabase } from '../db/schema';
 import { findProjectRoot } from '../utils';
 import { startWatcher } from '../watcher/daemon';
 import {
-    search, getCallers, getContext, getImpact,
-    getDeps, getRank, getModules, getStats,
+    search, getCallers, getContext, getSignatures, getImpact,
+    getDeps, getRank, getModules, getPackageGraph, getStats, getTypeHierarchy, findReferences,
+    planRename, getPackages, getPackageUsage, getBrokenImports,
 } from '../query/engine';
 import { reindexFile } from '../indexer';
 
@@ -54,13 +55,15 @@ export async function runMcpServer(): Promise<void> {
                     properties: {
                         query: { type: 'string', description: 'Search query (natural language or symbol name)' },
                         limit: { type: 'number', description: 'Max results (default 15)' },
+                        exclude_deprecated: { type: 'boolean', description: 'Leave out symbols whose docs mark them deprecated' },
+                        include_generated: { type: 'boolean', description: 'Rank generated, minified and vendored files like any other (by default they rank lower)' },
                     },
                     required: ['query'],
                 },
             },
             {
                 name: 'get_symbol',
-                description: 'Get complete context for a symbol: its code, what it depends on, what depends on it, co-located symbols. Use before modifying any symbol.',
+                description: 'Get complete context for a symbol: its code, parsed docs (params, returns, throws, deprecated, examples), what it depends on, what depends on it, co-located symbols. Use before modifying any symbol.',
                 inputSchema: {
                     type: 'object' as const,
                     properties: {
@@ -69,9 +72,20 @@ export async function runMcpServer(): Promise<void> {
                     required: ['name'],
                 },
             },
+            {
+                name: 'get_signature',
+                description: 'Get just the declaration of a function or method: full signature, parameters (name, type, default, optional/rest), return type, async/generator, generics and doc summary. Far fewer tokens than get_symbol when you only need to know how to call something.',
+                inputSchema: {
+                    type: 'object' as const,
+                    properties: {
+                        name: { type: 'string', description: 'Symbol name or qualified name' },
+                    },
+                    required: ['name'],
+                },
+            },
             {
                 name: 'get_callers',
-                description: 'Find all callers of a function or method. Use before renaming, changing signatures, or removing functions.',
+                description: 'Find all callers of a function or method (for a class: everything that instantiates it). Use before renaming, changing signatures, or removing functions.',
                 inputSchema: {
                     type: 'object' as const,
                     properties: {
@@ -80,6 +94,32 @@ export async function runMcpServer(): Promise<void> {
                     required: ['name'],
                 },
             },
+            {
+                name: 'find_references',
+                description: 'Find every reference to a symbol with its exact location (file, line, column) and source line: call sites, `new` expressions, imports, type uses, extends/implements. Use to jump straight to each usage instead of grepping.',
+                inputSchema: {
+                    type: 'object' as const,
+                    properties: {
+                        name: { type: 'string', description: 'Symbol name or qualified name' },
+                        kind: { type: 'string', enum: ['call', 'import', 'reexport', 'type_use', 'extends', 'implements', 'instantiates'], description: 'Only references of this kind' },
+                        limit: { type: 'number', description: 'Max results (default 200)' },
+                    },
+                    required: ['name'],
+                },
+            },
+            {
+                name: 'plan_rename',
+                description: 'Plan renaming a symbol: every location to edit (definition, import specifiers, call sites, type uses) with line/column and replacement text, textual matches in docs/strings flagged as unverified, and collisions with existing symbols of the new name. Use before renaming anything exported.',
+                inputSchema: {
+                    type: 'object' as const,
+                    properties: {
+                        name: { type: 'string', description: 'Symbol name or qualified name' },
+                        newName: { type: 'string', description: 'New identifier' },
+                        file: { type: 'string', description: 'File defining the symbol, to disambiguate (optional)' },
+                    },
+                    required: ['name', 'newName'],
+                },
+            },
             {
                 name: 'get_dependents',
                 description: 'Find all files transitively affected if a file changes. Use before refactors that change exports or file structure.',
@@ -103,9 +143,22 @@ export async function runMcpServer(): Promise<void> {
                     required: ['name'],
                 },
             },
+            {
+                name: 'get_type_hierarchy',
+                description: 'Find supertypes (what a class/interface extends or implements) and subtypes (every class that extends or implements it), transitively. Use before changing an interface or base class.',
+                inputSchema: {
+                    type: 'object' as const,
+                    properties: {
+                        name: { type: 'string', description: 'Class, interface, trait or struct name' },
+                        direction: { type: 'string', enum: ['up', 'down', 'both'], description: 'up = supertypes, down = subtypes (default both)' },
+                        maxDepth: { type: 'number', description: 'Max traversal depth (default 10)' },
+                    },
+                    required: ['name'],
+                },
+            },
             {
                 name: 'get_architecture',
-                description: 'Get project architecture overview: top symbols by importance, module dependency map, language breakdown.',
+                description: 'Get project architecture overview: top symbols by importance, module dependency map (one module per workspace package in monorepos), language breakdown, and the dependency graph between workspace packages (null without workspaces).',
                 inputSchema: {
                     type: 'object' as const,
                     properties: {
@@ -113,9 +166,21 @@ export async function runMcpServer(): Promise<void> {
                     },
                 },
             },
+            {
+                name: 'get_package_usage',
+                description: 'External packages (npm, Python, crates, Go modules, system headers) the code imports. Without a package: each with its declared version, how many files import it and its most used names, plus local imports that resolve to nothing (likely broken). With a package: every file importing it and each call site or other use, optionally narrowed to one name (e.g. package axios, name create).',
+                inputSchema: {
+                    type: 'object' as const,
+                    properties: {
+                        package: { type: 'string', description: 'Package name as imported, e.g. lodash, @acme/ui, numpy, serde, github.com/spf13/cobra' },
+                        name: { type: 'string', description: 'Only uses of this imported name and its members' },
+                        limit: { type: 'number', description: 'Max uses (default 200)' },
+                    },
+                },
+            },
             {
                 name: 'reindex_file',
-                description: 'Re-index a single file immediately.',
+                description: 'Re-index a single file immediately, repairing cross-file edges to and from it. Rankings refresh shortly after.',
                 inputSchema: {
                     type: 'object' as const,
                     properties: {
@@ -137,7 +202,10 @@ export async function runMcpServer(): Promise<void> {
 
             switch (name) {
                 case 'search_code':
-                    result = search(db, (args as any).query, (args as any).limit);
+                    result = search(
+                        db, (args as any).query, (args as any).limit,
+                        (args as any).exclude_deprecated, (args as any).include_generated
+                    );
                     break;
                 case 'get_symbol':
                     result = getContext(db, (args as any).name);
@@ -145,22 +213,56 @@ export async function runMcpServer(): Promise<void> {
                         return { content: [{ type: 'text' as const, text: `Symbol '${(args as any).name}' not found in index.` }] };
                     }
                     break;
+                case 'get_signature':
+                    result = getSignatures(db, (args as any).name);
+                    if (result.length === 0) {
+                        return { content: [{ type: 'text' as const, text: `Symbol '${(args as any).name}' not found in index.` }] };
+                    }
+                    break;
                 case 'get_callers':
                     result = getCallers(db, (args as any).name);
                     break;
+                case 'find_references':
+                    result = findReferences(db, rootDir, (args as any).name, (args as any).kind, (args as any).limit);
+                    break;
+                case 'plan_rename':
+                    result = planRename(db, rootDir, (args as any).name, (args as any).newName, (args as any).file);
+                    if (!result) {
+                        return { content: [{ type: 'text' as const, text: `Symbol '${(args as any).name}' not found in index.` }] };
+                    }
+                    break;
                 case 'get_dependents':
                     result = getImpact(db, (args as any).file, (args as any).maxDepth);
                     break;
                 case 'get_dependencies':
                     result = getDeps(db, (args as any).name);
                     break;
+                case 'get_type_hierarchy':
+                    result = getTypeHierarchy(db, (args as any).name, (args as any).direction, (args as any).maxDepth);
+                    if (!result) {
+                        return { content: [{ type: 'text' as const, text: `Symbol '${(args as any).name}' not found in index.` }] };
+                    }
+                    break;
                 case 'get_architecture':
                     result = {
                         stats: getStats(db),
                         topSymbols: getRank(db, (args as any)?.top || 20),
                         modules: getModules(db),
+                        packageGraph: getPackageGraph(db),
                     };
                     break;
+                case 'get_package_usage': {
+                    const pkg = (args as any)?.package;
+                    if (!pkg) {
+                        result = { packages: getPackages(db, rootDir), brokenImports: getBrokenImports(db) };
+                        break;
+                    }
+                    result = getPackageUsage(db, rootDir, pkg, (args as any).name, (args as any).limit);
+                    if (!result) {
+                        return { content: [{ type: 'text' as const, text: `Package '${pkg}' is not imported.` }] };
+                    }
+                    break;
+                }
                 case 'reindex_file': {
                     const fileStart = performance.now();
                     reindexFile(rootDir, (args as any).file, db);
@@ -0,0 +1,130 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseJsonc } from './utils';
+
+export interface ContentLimits {
+    content: number;        // source stored per symbol; smaller and larger kinds scale with it
+    docstring: number;
+    signature: number;
+}
+
+export interface CodexConfig {
+    include: string[];      // globs; when any are given, only matching files are indexed
+    exclude: string[];      // globs, on top of hidden directories and .gitignore; `!glob` drops an earlier entry
+    languages: Record<string, boolean>;     // grammar name -> enabled; unlisted languages are on
+    maxFileSize: number;    // bytes
+    sourceRoots: string[];  // extra roots for absolute Python imports, relative to the project root
+    importPaths: string[];  // extra directories for bare JS/TS specifiers and C/C++ includes
+    limits: ContentLimits;
+    generated: 'flag' | 'exclude';  // generated, minified and vendored files: ranked lower, or not parsed
+}
+
+// Committed with the project, then local overrides from the index directory
+export const CONFIG_FILES = ['claude-ex.config.json', path.join('.codex', 'config.json')];
+
+// Dependency, build output and cache directories; a config file re-includes one with `!name`
+const DEFAULT_EXCLUDE = [
+    'node_modules', 'dist', 'build', 'out', '__pycache__', 'target', 'vendor',
+    'coverage', 'venv', 'bower_components', 'tmp', 'temp',
+];
+
+export const DEFAULT_CONFIG: CodexConfig = {
+    include: [],
+    exclude: DEFAULT_EXCLUDE,
+    languages: {},
+    maxFileSize: 512 * 1024,
+    sourceRoots: [],
+    importPaths: [],
+    limits: { content: 2048, docstring: 500, signature: 1000 },
+    generated: 'flag',
+};
+
+function checkType(file: string, key: string, value: unknown, expected: 'array' | 'object' | 'number'): void {
+    const actual = Array.isArray(value) ? 'array' : typeof value;
+    if (actual !== expected) throw new Error(`${file}: "${key}" must be ${expected === 'array' ? 'an' : 'a'} ${expected}`);
+}
+
+/**
+ * Merge one config file over `base`. Lists are appended (a `!` entry in `include` or
+ * `exclude` removes that entry instead), `languages` and `limits` are merged key by key
+ * and other settings replaced. Keys it doesn't know, typos included, go to `warnings`.
+ */
+function mergeConfig(base: CodexConfig, file: string, raw: any, warnings: string[]): CodexConfig {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new Error(`${file}: expected a JSON object`);
+    for (const key of Object.keys(raw)) {
+        if (!(key in DEFAULT_CONFIG) && key !== '$schema') warnings.push(`${file}: unknown key "${key}" ignored`);
+    }
+    const merged: CodexConfig = { ...base, languages: { ...base.languages }, limits: { ...base.limits } };
+
+    for (const key of ['include', 'exclude', 'sourceRoots', 'importPaths'] as const) {
+        if (raw[key] === undefined) continue;
+        checkType(file, key, raw[key], 'array');
+        for (const entry of raw[key]) {
+            if (typeof entry !== 'string') throw new Error(`${file}: "${key}" must only contain strings`);
+            if ((key === 'include' || key === 'exclude') && entry.startsWith('!')) {
+                merged[key] = merged[key].filter(existing => existing !== entry.slice(1));
+            } else if (!merged[key].includes(entry)) {
+                merged[key] = [...merged[key], entry];
+            }
+        }
+    }
+    if (raw.languages !== undefined) {
+        checkType(file, 'languages', raw.languages, 'object');
+        for (const [language, enabled] of Object.entries(raw.languages)) {
+            if (typeof enabled !== 'boolean') throw new Error(`${file}: "languages.${language}" must be true or false`);
+            merged.languages[language] = enabled;
+        }
+    }
+    if (raw.maxFileSize !== undefined) {
+        checkType(file, 'maxFileSize', raw.maxFileSize, 'number');
+        merged.maxFileSize = raw.maxFileSize;
+    }
+    if (raw.generated !== undefined) {
+        if (raw.generated !== 'flag' && raw.generated !== 'exclude') throw new Error(`${file}: "generated" must be "flag" or "exclude"`);
+        merged.generated = raw.generated;
+    }
+    if (raw.limits !== undefined) {
+        checkType(file, 'limits', raw.limits, 'object');
+        for (const key of Object.keys(raw.limits)) {
+            if (!(key in DEFAULT_CONFIG.limits)) warnings.push(`${file}: unknown key "limits.${key}" ignored`);
+        }
+        for (const key of Object.keys(DEFAULT_CONFIG.limits) as (keyof ContentLimits)[]) {
+            if (raw.limits[key] === undefined) continue;
+            checkType(file, `limits.${key}`, raw.limits[key], 'number');
+            merged.limits[key] = raw.limits[key];
+        }
+    }
+    return merged;
+}
+
+/**
+ * The project's effective configuration: defaults, then `claude-ex.config.json`, then
+ * `.codex/config.json`. Throws on a malformed file. `sources` lists the files read and
+ * `warnings` the keys they set that mean nothing.
+ */
+export function loadConfigWithSources(rootDir: string): { config: CodexConfig; sources: string[]; warnings: string[] } {
+    let config = DEFAULT_CONFIG;
+    const sources: string[] = [];
+    const warnings: string[] = [];
+    for (const name of CONFIG_FILES) {
+        const file = path.join(rootDir, name);
+        if (!fs.existsSync(file)) continue;
+        let raw: any;
+        try {
+            raw = parseJsonc(fs.readFileSync(file, 'utf-8'));
+        } catch (err) {
+            throw new Error(`${file}: ${err instanceof Error ? err.message : err}`);
+        }
+        config = mergeConfig(config, file, raw, warnings);
+        sources.push(name);
+    }
+    return { config, sources, warnings };
+}
+
+export function loadConfig(rootDir: string): CodexConfig {
+    return loadConfigWithSources(rootDir).config;
+}
+
+export function isLanguageEnabled(config: CodexConfig, language: string | null): boolean {
+    return !language || config.languages[language] !== false;
+}
@@ -2,6 +2,12 @@ import Database from 'better-sqlite3';
 import * as path from 'path';
 import * as fs from 'fs';
 import { ensureCodexDir } from '../utils';
+import { StructuredDoc } from '../indexer/docstring';
+import { SignatureInfo } from '../indexer/signature';
+import { ExtractedImport } from '../indexer/parser';
+
+// Bump when tables change; an index built with an older schema is dropped and rebuilt
+const SCHEMA_VERSION = 7;
 
 const SCHEMA_SQL = `
 CREATE TABLE IF NOT EXISTS files (
@@ -11,6 +17,10 @@ CREATE TABLE IF NOT EXISTS files (
     content_hash TEXT NOT NULL,
     line_count INTEGER DEFAULT 0,
     last_modified INTEGER,
+    size INTEGER,
+    imports TEXT,
+    unresolved_imports INTEGER DEFAULT 0,
+    generated TEXT,
     last_indexed INTEGER
 );
 
@@ -23,7 +33,10 @@ CREATE TABLE IF NOT EXISTS symbols (
     line_start INTEGER,
     line_end INTEGER,
     signature TEXT,
+    signature_info TEXT,
     docstring TEXT,
+    doc TEXT,
+    deprecated INTEGER DEFAULT 0,
     content TEXT,
     content_hash TEXT,
     exported INTEGER DEFAULT 0
@@ -44,6 +57,42 @@ CREATE TABLE IF NOT EXISTS file_deps (
     PRIMARY KEY (from_file, to_file, kind, import_name)
 );
 
+CREATE TABLE IF NOT EXISTS occurrences (
+    symbol_id INTEGER REFERENCES symbols(id) ON DELETE CASCADE,
+    from_id INTEGER REFERENCES symbols(id) ON DELETE CASCADE,
+    file_id INTEGER REFERENCES files(id) ON DELETE CASCADE,
+    line INTEGER NOT NULL,
+    col INTEGER NOT NULL,
+    kind TEXT NOT NULL,
+    PRIMARY KEY (symbol_id, file_id, line, col, kind)
+);
+
+CREATE TABLE IF NOT EXISTS pending_refs (
+    file_id INTEGER REFERENCES files(id) ON DELETE CASCADE,
+    from_id INTEGER REFERENCES symbols(id) ON DELETE CASCADE,
+    target_name TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    line INTEGER NOT NULL,
+    col INTEGER NOT NULL,
+    PRIMARY KEY (from_id, target_name, kind, line, col)
+);
+
+CREATE TABLE IF NOT EXISTS external_refs (
+    file_id INTEGER REFERENCES files(id) ON DELETE CASCADE,
+    from_id INTEGER REFERENCES symbols(id) ON DELETE CASCADE,
+    package TEXT,
+    source TEXT NOT NULL,
+    name TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    line INTEGER,
+    col INTEGER
+);
+
+CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT
+);
+
 CREATE TABLE IF NOT EXISTS rankings (
     symbol_id INTEGER PRIMARY KEY REFERENCES symbols(id) ON DELETE CASCADE,
     pagerank REAL DEFAULT 0,
@@ -89,6 +138,26 @@ CREATE INDEX IF NOT EXISTS idx_edges_from ON edges(from_id, kind);
 CREATE INDEX IF NOT EXISTS idx_files_hash ON files(content_hash);
 CREATE INDEX IF NOT EXISTS idx_file_deps_to ON file_deps(to_file);
 CREATE INDEX IF NOT EXISTS idx_file_deps_from ON file_deps(from_file);
+CREATE INDEX IF NOT EXISTS idx_occurrences_file ON occurrences(file_id);
+CREATE INDEX IF NOT EXISTS idx_pending_refs_file ON pending_refs(file_id);
+CREATE INDEX IF NOT EXISTS idx_external_refs_file ON external_refs(file_id);
+CREATE INDEX IF NOT EXISTS idx_external_refs_package ON external_refs(package);
+`;
+
+const DROP_SQL = `
+DROP TRIGGER IF EXISTS symbols_ai;
+DROP TRIGGER IF EXISTS symbols_ad;
+DROP TRIGGER IF EXISTS symbols_au;
+DROP TABLE IF EXISTS symbols_fts;
+DROP TABLE IF EXISTS rankings;
+DROP TABLE IF EXISTS pending_refs;
+DROP TABLE IF EXISTS external_refs;
+DROP TABLE IF EXISTS meta;
+DROP TABLE IF EXISTS occurrences;
+DROP TABLE IF EXISTS edges;
+DROP TABLE IF EXISTS file_deps;
+DROP TABLE IF EXISTS symbols;
+DROP TABLE IF EXISTS files;
 `;
 
 const PRAGMAS = [
@@ -109,6 +178,12 @@ export function openDatabase(projectRoot: string): Database.Database {
         db.pragma(pragma.replace('PRAGMA ', ''));
     }
 
+    // The index is derived data, so an outdated one is rebuilt rather than migrated
+    if ((db.pragma('user_version', { simple: true }) as number) < SCHEMA_VERSION) {
+        db.exec(DROP_SQL);
+        db.pragma(`user_version = ${SCHEMA_VERSION}`);
+    }
+
     db.exec(SCHEMA_SQL);
     db.exec(FTS_SQL);
     db.exec(TRIGGERS_SQL);
@@ -117,6 +192,15 @@ export function openDatabase(projectRoot: string): Database.Database {
     return db;
 }
 
+export function getMeta(db: Database.Database, key: string): string | undefined {
+    const row = db.prepare('SELECT value FROM meta WHERE key = ?').get(key) as { value: string } | undefined;
+    return row?.value;
+}
+
+export function setMeta(db: Database.Database, key: string, value: string): void {
+    db.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)').run(key, value);
+}
+
 export interface FileRecord {
     id: number;
     changed: boolean;
@@ -125,6 +209,7 @@ export interface FileRecord {
 const getFileStmt = new WeakMap<Database.Database, Database.Statement>();
 const insertFileStmt = new WeakMap<Database.Database, Database.Statement>();
 const updateFileStmt = new WeakMap<Database.Database, Database.Statement>();
+const touchFileStmt = new WeakMap<Database.Database, Database.Statement>();
 
 function getOrPrepare<T extends Database.Statement>(
     map: WeakMap<Database.Database, T>,
@@ -139,12 +224,22 @@ function getOrPrepare<T extends Database.Statement>(
     return stmt;
 }
 
+export interface FileStat {
+    mtime: number;          // ms since epoch, truncated
+    size: number;
+}
+
+/**
+ * Look up or create the row for `filePath`. The stat is recorded even when the content is
+ * unchanged, so a touched file is not hashed again on the next run.
+ */
 export function getOrCreateFile(
     db: Database.Database,
     filePath: string,
     hash: string,
     language: string | null,
-    lineCount: number
+    lineCount: number,
+    stat?: FileStat
 ): FileRecord {
     const get = getOrPrepare(
         getFileStmt, db,
@@ -154,31 +249,54 @@ export function getOrCreateFile(
 
     if (existing) {
         if (existing.content_hash === hash) {
+            if (stat) {
+                getOrPrepare(touchFileStmt, db, 'UPDATE files SET last_modified = ?, size = ? WHERE id = ?')
+                    .run(stat.mtime, stat.size, existing.id);
+            }
             return { id: existing.id, changed: false };
         }
         const update = getOrPrepare(
             updateFileStmt, db,
-            'UPDATE files SET content_hash = ?, language = ?, line_count = ?, last_indexed = ? WHERE id = ?'
+            'UPDATE files SET content_hash = ?, language = ?, line_count = ?, last_modified = ?, size = ?, last_indexed = ? WHERE id = ?'
         );
-        update.run(hash, language, lineCount, Date.now(), existing.id);
+        update.run(hash, language, lineCount, stat?.mtime ?? null, stat?.size ?? null, Date.now(), existing.id);
         return { id: existing.id, changed: true };
     }
 
     const insert = getOrPrepare(
         insertFileStmt, db,
-        'INSERT INTO files (path, content_hash, language, line_count, last_indexed) VALUES (?, ?, ?, ?, ?)'
+        'INSERT INTO files (path, content_hash, language, line_count, last_modified, size, last_indexed) VALUES (?, ?, ?, ?, ?, ?, ?)'
     );
-    const result = insert.run(filePath, hash, language, lineCount, Date.now());
+    const result = insert.run(filePath, hash, language, lineCount, stat?.mtime ?? null, stat?.size ?? null, Date.now());
     return { id: Number(result.lastInsertRowid), changed: true };
 }
 
 export function clearFileData(db: Database.Database, fileId: number): void {
     db.prepare('DELETE FROM rankings WHERE symbol_id IN (SELECT id FROM symbols WHERE file_id = ?)').run(fileId);
     db.prepare('DELETE FROM edges WHERE from_id IN (SELECT id FROM symbols WHERE file_id = ?) OR to_id IN (SELECT id FROM symbols WHERE file_id = ?)').run(fileId, fileId);
+    db.prepare('DELETE FROM occurrences WHERE file_id = ? OR symbol_id IN (SELECT id FROM symbols WHERE file_id = ?)').run(fileId, fileId);
+    db.prepare('DELETE FROM pending_refs WHERE file_id = ?').run(fileId);
+    db.prepare('DELETE FROM external_refs WHERE file_id = ?').run(fileId);
     db.prepare('DELETE FROM symbols WHERE file_id = ?').run(fileId);
     db.prepare('DELETE FROM file_deps WHERE from_file = ?').run(fileId);
 }
 
+/**
+ * Clear what linking writes for an unchanged file, so it can be linked again: file deps,
+ * external references, and edges and occurrences reaching other files' symbols. Prototype
+ * links (`declares`) are kept; they're rebuilt separately.
+ */
+export function clearFileLinks(db: Database.Database, fileId: number): void {
+    db.prepare(`
+        DELETE FROM edges WHERE kind != 'declares'
+          AND from_id IN (SELECT id FROM symbols WHERE file_id = ?)
+          AND to_id NOT IN (SELECT id FROM symbols WHERE file_id = ?)
+    `).run(fileId, fileId);
+    db.prepare('DELETE FROM occurrences WHERE file_id = ? AND symbol_id NOT IN (SELECT id FROM symbols WHERE file_id = ?)').run(fileId, fileId);
+    db.prepare('DELETE FROM external_refs WHERE file_id = ?').run(fileId);
+    db.prepare('DELETE FROM file_deps WHERE from_file = ?').run(fileId);
+}
+
 export interface SymbolData {
     name: string;
     qualifiedName?: string;
@@ -186,37 +304,156 @@ export interface SymbolData {
     lineStart: number;
     lineEnd: number;
     signature?: string;
+    signatureInfo?: SignatureInfo;
     docstring?: string;
+    doc?: StructuredDoc;
     content?: string;
     contentHash?: string;
     exported?: boolean;
 }
 
-export function insertSymbol(db: Database.Database, fileId: number, sym: SymbolData): number {
-    const stmt = db.prepare(
-        `INSERT INTO symbols (name, qualified_name, kind, file_id, line_start, line_end, signature, docstring, content, content_hash, exported)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
-    );
-    const result = stmt.run(
-        sym.name,
-        sym.qualifiedName || null,
-        sym.kind,
-        fileId,
+// Column values after name, qualified_name, kind and file_id, in table order
+function symbolValues(sym: SymbolData): unknown[] {
+    return [
         sym.lineStart,
         sym.lineEnd,
         sym.signature || null,
+        sym.signatureInfo ? JSON.stringify(sym.signatureInfo) : null,
         sym.docstring || null,
+        sym.doc ? JSON.stringify(sym.doc) : null,
+        sym.doc?.deprecated !== undefined ? 1 : 0,
         sym.content || null,
         sym.contentHash || null,
-        sym.exported ? 1 : 0
+        sym.exported ? 1 : 0,
+    ];
+}
+
+export function insertSymbol(db: Database.Database, fileId: number, sym: SymbolData): number {
+    const stmt = db.prepare(
+        `INSERT INTO symbols (name, qualified_name, kind, file_id, line_start, line_end, signature, signature_info,
+                              docstring, doc, deprecated, content, content_hash, exported)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
     );
+    const result = stmt.run(sym.name, sym.qualifiedName || null, sym.kind, fileId, ...symbolValues(sym));
     return Number(result.lastInsertRowid);
 }
 
+function deleteSymbol(db: Database.Database, id: number): void {
+    db.prepare('DELETE FROM rankings WHERE symbol_id = ?').run(id);
+    db.prepare('DELETE FROM edges WHERE from_id = ? OR to_id = ?').run(id, id);
+    db.prepare('DELETE FROM occurrences WHERE symbol_id = ? OR from_id = ?').run(id, id);
+    db.prepare('DELETE FROM symbols WHERE id = ?').run(id);
+}
+
+/**
+ * Replace a changed file's symbols with a fresh parse while keeping IDs stable. Each symbol
+ * is matched to an existing row by kind and qualified name, preferring one with the same
+ * content hash when a name repeats; matches are updated in place, so edges, occurrences and
+ * rankings pointing at them from other files survive. Unmatched rows are deleted and new
+ * symbols inserted. What the file itself contributes (outgoing edges, its occurrences,
+ * pending and external references, file deps) is cleared for the caller to rebuild. Returns the ID of each symbol, in order.
+ */
+export function syncFileSymbols(db: Database.Database, fileId: number, symbols: SymbolData[]): number[] {
+    db.prepare('DELETE FROM edges WHERE from_id IN (SELECT id FROM symbols WHERE file_id = ?)').run(fileId);
+    db.prepare('DELETE FROM occurrences WHERE file_id = ?').run(fileId);
+    db.prepare('DELETE FROM pending_refs WHERE file_id = ?').run(fileId);
+    db.prepare('DELETE FROM external_refs WHERE file_id = ?').run(fileId);
+    db.prepare('DELETE FROM file_deps WHERE from_file = ?').run(fileId);
+
+    const existing = db.prepare(
+        'SELECT id, name, qualified_name, kind, content_hash FROM symbols WHERE file_id = ? ORDER BY id'
+    ).all(fileId) as { id: number; name: string; qualified_name: string | null; kind: string; content_hash: string | null }[];
+    const candidates = new Map<string, typeof existing>();
+    for (const row of existing) {
+        const key = `${row.kind}\0${row.qualified_name || row.name}`;
+        if (!candidates.has(key)) candidates.set(key, []);
+        candidates.get(key)!.push(row);
+    }
+
+    const update = db.prepare(
+        `UPDATE symbols SET name = ?, line_start = ?, line_end = ?, signature = ?, signature_info = ?,
+                            docstring = ?, doc = ?, deprecated = ?, content = ?, content_hash = ?, exported = ?
+         WHERE id = ?`
+    );
+    const ids = symbols.map(sym => {
+        const rows = candidates.get(`${sym.kind}\0${sym.qualifiedName || sym.name}`);
+        if (!rows || rows.length === 0) return insertSymbol(db, fileId, sym);
+        const same = rows.findIndex(r => r.content_hash === sym.contentHash);
+        const [row] = rows.splice(same === -1 ? 0 : same, 1);
+        update.run(sym.name, ...symbolValues(sym), row.id);
+        return row.id;
+    });
+
+    for (const rows of candidates.values()) {
+        for (const row of rows) deleteSymbol(db, row.id);
+    }
+    return ids;
+}
+
 export function insertEdge(db: Database.Database, fromId: number, toId: number, kind: string): void {
     db.prepare('INSERT OR IGNORE INTO edges (from_id, to_id, kind) VALUES (?, ?, ?)').run(fromId, toId, kind);
 }
 
+export interface OccurrenceData {
+    symbolId: number;       // the referenced symbol
+    fromId: number | null;  // enclosing symbol at the reference site, if any
+    fileId: number;
+    line: number;
+    column: number;
+    kind: string;           // 'call', 'import', 'type_use', 'extends', ...
+}
+
+export function insertOccurrence(db: Database.Database, occ: OccurrenceData): void {
+    db.prepare(
+        'INSERT OR IGNORE INTO occurrences (symbol_id, from_id, file_id, line, col, kind) VALUES (?, ?, ?, ?, ?, ?)'
+    ).run(occ.symbolId, occ.fromId, occ.fileId, occ.line, occ.column, occ.kind);
+}
+
+export interface PendingRefData {
+    fileId: number;
+    fromId: number;
+    targetName: string;     // as referenced, e.g. `fn`, `ns.fn`, `Imported.method`
+    kind: string;           // edge kind
+    line: number;
+    column: number;
+}
+
+// A reference that did not resolve inside its file, kept so it can be resolved again when its imports change
+export function insertPendingRef(db: Database.Database, ref: PendingRefData): void {
+    db.prepare(
+        'INSERT OR IGNORE INTO pending_refs (file_id, from_id, target_name, kind, line, col) VALUES (?, ?, ?, ?, ?, ?)'
+    ).run(ref.fileId, ref.fromId, ref.targetName, ref.kind, ref.line, ref.column);
+}
+
+export interface ExternalRefData {
+    fileId: number;
+    fromId: number | null;  // enclosing symbol; null for the import itself
+    package: string | null; // null when a local import's target is missing
+    source: string;         // import specifier as written
+    name: string;           // imported name, or the name used, e.g. `create` for `axios.create()`
+    kind: string;           // 'import' or the reference's edge kind
+    line: number | null;
+    column: number | null;
+}
+
+// An import that resolved to no indexed file, or a reference through one
+export function insertExternalRef(db: Database.Database, ref: ExternalRefData): void {
+    db.prepare(
+        'INSERT INTO external_refs (file_id, from_id, package, source, name, kind, line, col) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+    ).run(ref.fileId, ref.fromId, ref.package, ref.source, ref.name, ref.kind, ref.line, ref.column);
+}
+
+// The file's imports as parsed, and how many of them resolved to no indexed file
+export function setFileImports(db: Database.Database, fileId: number, imports: ExtractedImport[], unresolved: number): void {
+    db.prepare('UPDATE files SET imports = ?, unresolved_imports = ? WHERE id = ?')
+        .run(imports.length > 0 ? JSON.stringify(imports) : null, unresolved, fileId);
+}
+
+// Why the file looks generated, minified or vendored; null for ordinary source
+export function setFileGenerated(db: Database.Database, fileId: number, reason: string | null): void {
+    db.prepare('UPDATE files SET generated = ? WHERE id = ?').run(reason, fileId);
+}
+
 export function insertFileDep(
     db: Database.Database,
     fromFile: number,
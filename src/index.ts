@@ -3,12 +3,14 @@
 import { Command } from 'commander';
 import * as path from 'path';
 import { findProjectRoot, formatMs } from './utils';
+import { loadConfigWithSources } from './config';
 import { indexProject, reindexFile } from './indexer';
 import {
     searchFromRoot, getCallersFromRoot, getContextFromRoot,
     getImpactFromRoot, getDepsFromRoot, getRankFromRoot,
     getModulesFromRoot, getStatsFromRoot, briefFromRoot,
-    preEditContextFromRoot,
+    preEditContextFromRoot, getTypeHierarchyFromRoot, findReferencesFromRoot,
+    planRenameFromRoot, getPackagesFromRoot, getPackageUsageFromRoot, getPackageGraphFromRoot,
 } from './query/engine';
 import { install } from './claude/installer';
 import { writeClaudeMd } from './claude/claudemd';
@@ -39,21 +41,32 @@ function requireIndex(pathArg?: string): string {
     return found;
 }
 
+function parseWorkers(value?: string): number | undefined {
+    return value === undefined ? undefined : Math.max(0, parseInt(value, 10) || 0);
+}
+
 // --- init ---
 program
     .command('init')
     .argument('[path]', 'Project directory')
     .option('-v, --verbose', 'Verbose output')
+    .option('-w, --workers <n>', 'Parser threads (default: CPU count - 1, 0 = parse on the main thread)')
+    .option('--verify', 'Hash every file instead of trusting unchanged mtime and size')
     .description('Index project + install Claude Code config + generate docs')
-    .action((pathArg, opts) => {
+    .action(async (pathArg, opts) => {
         const rootDir = resolveRoot(pathArg);
         const dirname = path.basename(rootDir);
 
         console.log(`Indexing ${dirname}...`);
-        const stats = indexProject(rootDir, { verbose: opts.verbose });
+        const stats = await indexProject(rootDir, { verbose: opts.verbose, verify: opts.verify, workers: parseWorkers(opts.workers) });
 
         console.log(`Indexed ${stats.indexedFiles} files (${stats.skippedFiles} unchanged) in ${formatMs(stats.timeMs)}`);
         console.log(`  ${stats.symbols} symbols, ${stats.edges} edges`);
+        if (opts.verbose) {
+            const { collect, parse, store, resolve, rank } = stats.phases;
+            console.log(`  collect ${formatMs(collect)}, parse ${formatMs(parse)} (${stats.workers} workers, ${formatMs(store)} writing), ` +
+                `resolve ${formatMs(resolve)}, rank ${formatMs(rank)}`);
+        }
 
         console.log('Installing Claude Code config...');
         install(rootDir);
@@ -71,10 +84,12 @@ program
     .command('reindex')
     .argument('[path]', 'Project directory')
     .option('-v, --verbose', 'Verbose output')
+    .option('-w, --workers <n>', 'Parser threads (default: CPU count - 1, 0 = parse on the main thread)')
+    .option('--verify', 'Hash every file instead of trusting unchanged mtime and size')
     .description('Full re-index of the project')
-    .action((pathArg, opts) => {
+    .action(async (pathArg, opts) => {
         const rootDir = requireIndex(pathArg);
-        const stats = indexProject(rootDir, { verbose: opts.verbose });
+        const stats = await indexProject(rootDir, { verbose: opts.verbose, verify: opts.verify, workers: parseWorkers(opts.workers) });
         console.log(JSON.stringify(stats));
     });
 
@@ -93,10 +108,12 @@ program
     .command('search')
     .argument('<query>', 'Search query')
     .option('-l, --limit <n>', 'Max results', '15')
+    .option('--no-deprecated', 'Leave out deprecated symbols')
+    .option('--include-generated', 'Rank generated, minified and vendored files like any other')
     .description('Search for symbols')
     .action((query, opts) => {
         const rootDir = requireIndex();
-        const results = searchFromRoot(rootDir, query, parseInt(opts.limit, 10));
+        const results = searchFromRoot(rootDir, query, parseInt(opts.limit, 10), !opts.deprecated, opts.includeGenerated);
         console.log(JSON.stringify(results, null, 2));
     });
 
@@ -111,6 +128,37 @@ program
         console.log(JSON.stringify(results, null, 2));
     });
 
+// --- refs ---
+program
+    .command('refs')
+    .argument('<symbol>', 'Symbol name')
+    .option('-k, --kind <kind>', 'Only this reference kind (call, import, reexport, type_use, extends, implements, instantiates)')
+    .option('-l, --limit <n>', 'Max results', '200')
+    .description('Find references to a symbol with exact positions')
+    .action((symbol, opts) => {
+        const rootDir = requireIndex();
+        const results = findReferencesFromRoot(rootDir, symbol, opts.kind, parseInt(opts.limit, 10));
+        console.log(JSON.stringify(results, null, 2));
+    });
+
+// --- rename-plan ---
+program
+    .command('rename-plan')
+    .argument('<symbol>', 'Symbol name')
+    .argument('<newName>', 'New name')
+    .option('-f, --file <file>', 'File defining the symbol (to disambiguate)')
+    .description('Plan a rename: every edit location, textual mentions and collisions')
+    .action((symbol, newName, opts) => {
+        const rootDir = requireIndex();
+        try {
+            const result = planRenameFromRoot(rootDir, symbol, newName, opts.file);
+            console.log(JSON.stringify(result, null, 2));
+        } catch (err) {
+            process.stderr.write(`Error: ${err instanceof Error ? err.message : err}\n`);
+            process.exit(1);
+        }
+    });
+
 // --- context ---
 program
     .command('context')
@@ -122,6 +170,19 @@ program
         console.log(JSON.stringify(result, null, 2));
     });
 
+// --- hierarchy ---
+program
+    .command('hierarchy')
+    .argument('<symbol>', 'Class, interface, trait or struct name')
+    .option('-d, --direction <dir>', 'up (supertypes), down (subtypes) or both', 'both')
+    .option('--depth <n>', 'Max traversal depth', '10')
+    .description('Type hierarchy (extends/implements) for a symbol')
+    .action((symbol, opts) => {
+        const rootDir = requireIndex();
+        const result = getTypeHierarchyFromRoot(rootDir, symbol, opts.direction, parseInt(opts.depth, 10));
+        console.log(JSON.stringify(result, null, 2));
+    });
+
 // --- impact ---
 program
     .command('impact')
@@ -148,19 +209,50 @@ program
 program
     .command('rank')
     .option('-t, --top <n>', 'Number of top symbols', '20')
+    .option('--include-generated', 'Rank generated, minified and vendored files like any other')
     .description('Top symbols by PageRank')
     .action((opts) => {
         const rootDir = requireIndex();
-        const results = getRankFromRoot(rootDir, parseInt(opts.top, 10));
+        const results = getRankFromRoot(rootDir, parseInt(opts.top, 10), opts.includeGenerated);
         console.log(JSON.stringify(results, null, 2));
     });
 
+// --- packages ---
+program
+    .command('packages')
+    .argument('[package]', 'Package to show usage of')
+    .option('-n, --name <name>', 'Only uses of this imported name and its members (e.g. create)')
+    .description('External packages with usage counts and broken local imports, or where one package is used')
+    .action((pkg, opts) => {
+        const rootDir = requireIndex();
+        if (!pkg) {
+            console.log(JSON.stringify(getPackagesFromRoot(rootDir), null, 2));
+            return;
+        }
+        const result = getPackageUsageFromRoot(rootDir, pkg, opts.name);
+        if (!result) {
+            process.stderr.write(`Error: package '${pkg}' is not imported${opts.name ? ` for '${opts.name}'` : ''}.\n`);
+            process.exit(1);
+        }
+        console.log(JSON.stringify(result, null, 2));
+    });
+
 // --- modules ---
 program
     .command('modules')
-    .description('Module dependency map')
-    .action(() => {
+    .option('-g, --graph', 'Dependency graph between workspace packages instead')
+    .description('Module dependency map, one module per workspace package in monorepos')
+    .action((opts) => {
         const rootDir = requireIndex();
+        if (opts.graph) {
+            const graph = getPackageGraphFromRoot(rootDir);
+            if (!graph) {
+                process.stderr.write('Error: no workspace packages found (package.json workspaces, pnpm-workspace.yaml, Cargo workspace or go.work).\n');
+                process.exit(1);
+            }
+            console.log(JSON.stringify(graph, null, 2));
+            return;
+        }
         const results = getModulesFromRoot(rootDir);
         console.log(JSON.stringify(results, null, 2));
     });
@@ -175,6 +267,24 @@ program
         console.log(JSON.stringify(results, null, 2));
     });
 
+// --- config ---
+program
+    .command('config')
+    .argument('[path]', 'Project directory')
+    .description('Print the effective configuration (defaults + claude-ex.config.json + .codex/config.json)')
+    .action((pathArg) => {
+        const rootDir = resolveRoot(pathArg);
+        try {
+            const { config, sources, warnings } = loadConfigWithSources(rootDir);
+            process.stderr.write(sources.length > 0 ? `Loaded: ${sources.join(', ')}\n` : 'No config files; using defaults\n');
+            for (const warning of warnings) process.stderr.write(`Warning: ${warning}\n`);
+            console.log(JSON.stringify(config, null, 2));
+        } catch (err) {
+            process.stderr.write(`Error: ${err instanceof Error ? err.message : err}\n`);
+            process.exit(1);
+        }
+    });
+
 // --- brief (for SessionStart hook) ---
 program
     .command('brief')
@@ -1,16 +1,13 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { CodexConfig, loadConfig, isLanguageEnabled } from '../config';
+import { globToRegExp, matchesGlob } from '../utils';
+import { getLanguage } from './parser';
+import { createIgnoreMatcher } from './ignore';
 
-const SKIP_DIRS = new Set([
-    'node_modules', '.git', '.hg', '.svn', 'dist', 'build', 'out',
-    '.next', '.nuxt', '__pycache__', '.pytest_cache', 'target', 'vendor',
-    '.codex', '.claude', 'coverage', '.vscode', '.idea', 'venv', '.venv',
-    '.env', '.tox', 'bower_components', '.cache', '.parcel-cache',
-    'tmp', 'temp', '.turbo', '.vercel', '.netlify',
-]);
-
+// Minified `.min.js` and `.min.css` are told apart by detectGenerated; extname only sees `.js`
 const SKIP_EXTENSIONS = new Set([
-    '.lock', '.log', '.map', '.min.js', '.min.css',
+    '.lock', '.log', '.map',
     '.png', '.jpg', '.jpeg', '.gif', '.bmp', '.ico', '.svg', '.webp',
     '.woff', '.woff2', '.ttf', '.eot', '.otf',
     '.mp3', '.mp4', '.wav', '.avi', '.mov', '.webm', '.ogg',
@@ -35,32 +32,70 @@ const SUPPORTED_EXTENSIONS = new Set([
     '.html', '.htm',
 ]);
 
-const MAX_FILE_SIZE = 512 * 1024; // 512KB
+/**
+ * Which paths the index covers, shared by the collector and the watcher so both agree.
+ * Paths are relative to the project root.
+ */
+export interface FileFilter {
+    skipDir(relDir: string): boolean;
+    skipFile(relPath: string, size?: number): boolean;     // size is checked when given
+    includes(relPath: string, size?: number): boolean;     // the file and none of its directories skipped
+}
 
-function parseGitignore(rootDir: string): Set<string> {
-    const ignored = new Set<string>();
-    const gitignorePath = path.join(rootDir, '.gitignore');
-    if (!fs.existsSync(gitignorePath)) return ignored;
+export function createFileFilter(
+    rootDir: string,
+    config: CodexConfig = loadConfig(rootDir),
+    extensions: Set<string> = SUPPORTED_EXTENSIONS
+): FileFilter {
+    const ignore = createIgnoreMatcher(rootDir);
+    const include = config.include.map(globToRegExp);
+    const exclude = config.exclude.map(globToRegExp);
 
-    try {
-        const content = fs.readFileSync(gitignorePath, 'utf-8');
-        for (const line of content.split('\n')) {
-            const trimmed = line.trim();
-            if (!trimmed || trimmed.startsWith('#')) continue;
-            const name = trimmed.replace(/\/$/, '').replace(/^\//, '');
-            if (!name.includes('/') && !name.includes('*')) {
-                ignored.add(name);
+    return {
+        skipDir(relDir) {
+            const name = path.basename(relDir);
+            // Hidden directories (.git, .codex, .venv, ...) are never indexed; build output and dependencies are default excludes
+            return name.startsWith('.') || ignore.ignores(relDir, true) || matchesGlob(relDir, exclude);
+        },
+        skipFile(relPath, size) {
+            const ext = path.extname(relPath).toLowerCase();
+            if (SKIP_EXTENSIONS.has(ext) || !extensions.has(ext)) return true;
+            if (size !== undefined && size > config.maxFileSize) return true;
+            if (!isLanguageEnabled(config, getLanguage(relPath))) return true;
+            if (include.length > 0 && !matchesGlob(relPath, include)) return true;
+            return matchesGlob(relPath, exclude) || ignore.ignores(relPath, false);
+        },
+        includes(relPath, size) {
+            const dirs = path.dirname(relPath).split(path.sep).filter(d => d && d !== '.');
+            for (let i = 1; i <= dirs.length; i++) {
+                if (this.skipDir(dirs.slice(0, i).join(path.sep))) return false;
             }
-        }
-    } catch {
-        // ignore read errors
-    }
-    return ignored;
+            return !this.skipFile(relPath, size);
+        },
+    };
 }
 
-export function collectFiles(rootDir: string): string[] {
-    const files: string[] = [];
-    const gitignored = parseGitignore(rootDir);
+export interface CollectedFile {
+    path: string;           // relative to the root
+    mtime: number;          // ms since epoch, truncated
+    size: number;
+}
+
+/**
+ * Files under `rootDir` to index, skipping ignored directories, oversized files, unsupported
+ * types and whatever the project config leaves out. Pass `extensions` to collect other files
+ * (e.g. docs) the same way.
+ */
+export function collectFiles(rootDir: string, extensions: Set<string> = SUPPORTED_EXTENSIONS): string[] {
+    return collectFileStats(rootDir, createFileFilter(rootDir, loadConfig(rootDir), extensions)).map(f => f.path);
+}
+
+/**
+ * Like `collectFiles`, with the mtime and size from the stat taken while walking, so callers
+ * can tell unchanged files apart without reading them.
+ */
+export function collectFileStats(rootDir: string, filter: FileFilter = createFileFilter(rootDir)): CollectedFile[] {
+    const files: CollectedFile[] = [];
 
     function walk(dir: string) {
         let entries: fs.Dirent[];
@@ -73,23 +108,25 @@ export function collectFiles(rootDir: string): string[] {
         for (const entry of entries) {
             const name = entry.name;
 
+            const fullPath = path.join(dir, name);
+            const relPath = path.relative(rootDir, fullPath);
+
             if (entry.isDirectory()) {
-                if (name.startsWith('.') || SKIP_DIRS.has(name) || gitignored.has(name)) continue;
-                walk(path.join(dir, name));
+                if (filter.skipDir(relPath)) continue;
+                walk(fullPath);
             } else if (entry.isFile()) {
-                const ext = path.extname(name).toLowerCase();
-                if (SKIP_EXTENSIONS.has(ext)) continue;
-                if (!SUPPORTED_EXTENSIONS.has(ext)) continue;
+                // Rule out by name before paying for a stat
+                if (filter.skipFile(relPath)) continue;
 
-                const fullPath = path.join(dir, name);
+                let stat: fs.Stats;
                 try {
-                    const stat = fs.statSync(fullPath);
-                    if (stat.size > MAX_FILE_SIZE) continue;
+                    stat = fs.statSync(fullPath);
+                    if (filter.skipFile(relPath, stat.size)) continue;
                 } catch {
                     continue;
                 }
 
-                files.push(path.relative(rootDir, fullPath));
+                files.push({ path: relPath, mtime: Math.trunc(stat.mtimeMs), size: stat.size });
             }
         }
     }
@@ -0,0 +1,292 @@
+export interface DocParam {
+    name: string;
+    type?: string;
+    description: string;
+}
+
+export interface DocValue {
+    type?: string;
+    description: string;
+}
+
+export interface StructuredDoc {
+    summary: string;        // first paragraph of the description
+    params: DocParam[];
+    returns?: DocValue;
+    throws: DocValue[];
+    deprecated?: string;    // reason or version, '' when marked without one
+    examples: string[];
+}
+
+// A run of lines opened by a tag, field or section header
+interface DocBlock {
+    kind: 'tag' | 'field' | 'directive' | 'section';
+    name: string;           // tag/field/section name, lowercased
+    arg: string;            // text after the name on the header line
+    lines: string[];        // following lines
+    numpy?: boolean;        // NumPy section (header underlined with dashes)
+}
+
+const JSDOC_TAG = /^@(\w+)\s*(.*)$/;
+const SPHINX_FIELD = /^:(\w+)([^:]*):\s*(.*)$/;
+const SPHINX_DIRECTIVE = /^\.\.\s+(\w+)::\s*(.*)$/;
+const SECTION_NAMES = [
+    'args', 'arguments', 'parameters', 'params', 'keyword args', 'keyword arguments', 'other parameters',
+    'returns', 'return', 'yields', 'raises', 'throws', 'errors', 'example', 'examples', 'deprecated',
+    'note', 'notes', 'see also', 'attributes', 'todo', 'warns', 'references', 'panics', 'safety',
+];
+const GOOGLE_SECTION = new RegExp(`^(${SECTION_NAMES.join('|')}):\\s*$`, 'i');
+const NUMPY_SECTION = new RegExp(`^(${SECTION_NAMES.join('|')})\\s*$`, 'i');
+const MARKDOWN_SECTION = new RegExp(`^#{1,3}\\s+(${SECTION_NAMES.join('|')})\\s*$`, 'i');
+
+const PARAM_SECTIONS = new Set(['args', 'arguments', 'parameters', 'params', 'keyword args', 'keyword arguments', 'other parameters']);
+const RETURN_SECTIONS = new Set(['returns', 'return', 'yields']);
+const THROW_SECTIONS = new Set(['raises', 'throws', 'errors']);
+
+function indentOf(line: string): number {
+    return line.length - line.trimStart().length;
+}
+
+function dedent(lines: string[]): string[] {
+    const indents = lines.filter(l => l.trim()).map(indentOf);
+    const min = indents.length > 0 ? Math.min(...indents) : 0;
+    return lines.map(l => l.slice(Math.min(min, indentOf(l))).trimEnd());
+}
+
+// Comment markers (`/** */`, `///`, `#`) or Python string quotes removed, common indentation stripped
+function docLines(raw: string): string[] {
+    const text = raw.trim();
+    const quoted = /^[rRuU]*("""|'''|"|')([\s\S]*)\1$/.exec(text);
+    if (quoted) {
+        // Python: the first line sits right after the quotes, the rest carries the body's indentation
+        const [first, ...rest] = quoted[2].split('\n');
+        return [first.trim(), ...dedent(rest)];
+    }
+    if (text.startsWith('/*')) {
+        const body = text.replace(/^\/\*+!?/, '').replace(/\*+\/$/, '');
+        return dedent(body.split('\n').map(l => l.replace(/^\s*\*(?!\/) ?/, '')));
+    }
+    return dedent(text.split('\n').map(l => l.replace(/^\s*(\/\/[\/!]?|#) ?/, '')));
+}
+
+function joinText(lines: string[]): string {
+    return lines.map(l => l.trim()).filter(Boolean).join(' ');
+}
+
+// Example bodies keep their line structure
+function joinBlock(lines: string[]): string {
+    return dedent(lines).join('\n').replace(/^\n+|\s+$/g, '');
+}
+
+function splitBlocks(lines: string[]): { description: string[]; blocks: DocBlock[] } {
+    const description: string[] = [];
+    const blocks: DocBlock[] = [];
+    let current: DocBlock | null = null;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        const trimmed = line.trim();
+        let match: RegExpExecArray | null;
+        let block: DocBlock | null = null;
+
+        if ((match = JSDOC_TAG.exec(trimmed))) {
+            block = { kind: 'tag', name: match[1].toLowerCase(), arg: match[2], lines: [] };
+        } else if ((match = SPHINX_FIELD.exec(trimmed))) {
+            block = { kind: 'field', name: match[1].toLowerCase(), arg: `${match[2].trim()}\0${match[3]}`, lines: [] };
+        } else if ((match = SPHINX_DIRECTIVE.exec(trimmed))) {
+            block = { kind: 'directive', name: match[1].toLowerCase(), arg: match[2], lines: [] };
+        } else if (indentOf(line) === 0 && (match = GOOGLE_SECTION.exec(trimmed) || MARKDOWN_SECTION.exec(trimmed))) {
+            block = { kind: 'section', name: match[1].toLowerCase(), arg: '', lines: [] };
+        } else if (indentOf(line) === 0 && /^-{3,}$/.test(lines[i + 1]?.trim() || '') && (match = NUMPY_SECTION.exec(trimmed))) {
+            block = { kind: 'section', name: match[1].toLowerCase(), arg: '', lines: [], numpy: true };
+            i++; // underline
+        }
+
+        if (block) {
+            blocks.push(block);
+            current = block;
+        } else if (current) {
+            current.lines.push(line);
+        } else {
+            description.push(line);
+        }
+    }
+    return { description, blocks };
+}
+
+// `{Type} rest` → type and rest
+function braceType(text: string): { type?: string; rest: string } {
+    const match = /^\{([^}]*)\}\s*(.*)$/s.exec(text.trim());
+    return match ? { type: match[1].trim(), rest: match[2] } : { rest: text.trim() };
+}
+
+function applyTag(doc: StructuredDoc, block: DocBlock) {
+    const text = [block.arg, ...block.lines].join('\n');
+    switch (block.name) {
+        case 'param':
+        case 'arg':
+        case 'argument': {
+            const { type, rest } = braceType(text);
+            // `name`, `[name]`, `[name=default]`, then an optional ` - `
+            const match = /^(\[[^\]]*\]|[\w$.]+)\s*(?:-\s*)?([\s\S]*)$/.exec(rest);
+            if (!match) break;
+            const name = match[1].replace(/^\[|\]$/g, '').split('=')[0].trim();
+            doc.params.push({ name, ...(type ? { type } : {}), description: joinText(match[2].split('\n')) });
+            break;
+        }
+        case 'returns':
+        case 'return': {
+            const { type, rest } = braceType(text);
+            doc.returns = { ...(type ? { type } : {}), description: joinText(rest.split('\n')) };
+            break;
+        }
+        case 'throws':
+        case 'exception': {
+            const { type, rest } = braceType(text);
+            doc.throws.push({ ...(type ? { type } : {}), description: joinText(rest.split('\n')) });
+            break;
+        }
+        case 'deprecated':
+            doc.deprecated = joinText(text.split('\n'));
+            break;
+        case 'example':
+            doc.examples.push(joinBlock(text.split('\n')));
+            break;
+    }
+}
+
+function findParam(doc: StructuredDoc, name: string): DocParam {
+    let param = doc.params.find(p => p.name === name);
+    if (!param) {
+        param = { name, description: '' };
+        doc.params.push(param);
+    }
+    return param;
+}
+
+// Sphinx: `:param name:`, `:param type name:`, `:type name:`, `:returns:`, `:rtype:`, `:raises Exc:`
+function applyField(doc: StructuredDoc, block: DocBlock) {
+    const [target, first] = block.arg.split('\0');
+    const description = joinText([first, ...block.lines]);
+    const words = target.split(/\s+/).filter(Boolean);
+    switch (block.name) {
+        case 'param':
+        case 'parameter':
+        case 'arg':
+        case 'argument':
+        case 'key':
+        case 'keyword': {
+            if (words.length === 0) break;
+            const param = findParam(doc, words[words.length - 1]);
+            param.description = description;
+            if (words.length > 1) param.type = words.slice(0, -1).join(' ');
+            break;
+        }
+        case 'type':
+            if (words.length > 0) findParam(doc, words[0]).type = description;
+            break;
+        case 'returns':
+        case 'return':
+            doc.returns = { ...doc.returns, description };
+            break;
+        case 'rtype':
+            doc.returns = { description: '', ...doc.returns, type: description };
+            break;
+        case 'raises':
+        case 'raise':
+        case 'except':
+        case 'exception':
+        case 'throws':
+            doc.throws.push({ ...(target ? { type: target } : {}), description });
+            break;
+    }
+}
+
+/**
+ * Items of a Google or NumPy section. Lines at the section's base indentation start an item:
+ * `name (type): text` in Google style, `name : type` in NumPy style. Deeper lines continue it.
+ */
+function sectionItems(block: DocBlock): { head: string; body: string[] }[] {
+    const lines = block.lines.filter((l, i, all) => l.trim() || all.slice(i).some(r => r.trim()));
+    const base = Math.min(...lines.filter(l => l.trim()).map(indentOf));
+    const items: { head: string; body: string[] }[] = [];
+    for (const line of lines) {
+        if (line.trim() && indentOf(line) === base) {
+            items.push({ head: line.trim(), body: [] });
+        } else if (items.length > 0) {
+            items[items.length - 1].body.push(line);
+        }
+    }
+    return items;
+}
+
+function applySection(doc: StructuredDoc, block: DocBlock) {
+    if (block.lines.every(l => !l.trim())) return;
+
+    if (PARAM_SECTIONS.has(block.name)) {
+        for (const { head, body } of sectionItems(block)) {
+            const numpy = /^([\w*.,\s]+?)\s+:\s*(.*)$/.exec(head);
+            const google = /^([\w*.]+)\s*(?:\(([^)]*)\))?\s*:\s*(.*)$/.exec(head);
+            if (block.numpy && numpy) {
+                for (const name of numpy[1].split(',')) {
+                    doc.params.push({ name: name.trim(), ...(numpy[2] ? { type: numpy[2] } : {}), description: joinText(body) });
+                }
+            } else if (google) {
+                doc.params.push({ name: google[1], ...(google[2] ? { type: google[2] } : {}), description: joinText([google[3], ...body]) });
+            }
+        }
+    } else if (RETURN_SECTIONS.has(block.name) || THROW_SECTIONS.has(block.name)) {
+        // Google: `Type: text` or plain text; NumPy: `Type` (or `name : Type`) then indented text
+        const values: DocValue[] = [];
+        if (block.numpy) {
+            for (const { head, body } of sectionItems(block)) {
+                const type = head.includes(' : ') ? head.slice(head.indexOf(' : ') + 3).trim() : head;
+                values.push({ type, description: joinText(body) });
+            }
+        } else if (THROW_SECTIONS.has(block.name) && /^[\w.]+\s*:/.test(block.lines.find(l => l.trim())!.trim())) {
+            for (const { head, body } of sectionItems(block)) {
+                const match = /^([\w.]+)\s*:\s*(.*)$/.exec(head);
+                values.push(match ? { type: match[1], description: joinText([match[2], ...body]) } : { description: joinText([head, ...body]) });
+            }
+        } else {
+            const text = joinText(block.lines);
+            const match = RETURN_SECTIONS.has(block.name) ? /^([\w.\[\], |]+):\s+(.*)$/.exec(text) : null;
+            values.push(match ? { type: match[1], description: match[2] } : { description: text });
+        }
+        if (RETURN_SECTIONS.has(block.name)) {
+            doc.returns = values[0];
+        } else {
+            doc.throws.push(...values);
+        }
+    } else if (block.name === 'example' || block.name === 'examples') {
+        doc.examples.push(joinBlock(block.lines));
+    } else if (block.name === 'deprecated') {
+        doc.deprecated = joinText(block.lines);
+    }
+}
+
+/**
+ * Parse a doc comment or Python docstring into a summary and structured tags. Understands
+ * JSDoc/TSDoc `@tags`, Sphinx `:fields:` and `.. deprecated::`, Google `Args:` sections,
+ * NumPy underlined sections and Markdown `# Examples` headings (Rust).
+ */
+export function parseDocstring(raw: string): StructuredDoc {
+    const { description, blocks } = splitBlocks(docLines(raw));
+    const doc: StructuredDoc = { summary: '', params: [], throws: [], examples: [] };
+
+    const paragraphEnd = description.findIndex((l, i) => !l.trim() && description.slice(0, i).some(p => p.trim()));
+    doc.summary = joinText(paragraphEnd === -1 ? description : description.slice(0, paragraphEnd));
+
+    for (const block of blocks) {
+        if (block.kind === 'tag') {
+            applyTag(doc, block);
+        } else if (block.kind === 'field') {
+            applyField(doc, block);
+        } else if (block.kind === 'directive') {
+            if (block.name === 'deprecated') doc.deprecated = joinText([block.arg, ...block.lines]);
+        } else {
+            applySection(doc, block);
+        }
+    }
+    return doc;
+}
@@ -0,0 +1,111 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { compileGitPattern } from './ignore';
+
+// Generators put their notice in a comment at the top of the file
+const HEADER_LINES = 10;
+const COMMENT_LINE = /^\s*(?:\/\/|\/\*|\*|#|<!--|--|"""|''')/;
+const HEADER_MARKERS = [
+    /@generated\b/,
+    /\bDO NOT EDIT\b/,
+    /\b(?:auto-?generated|automatically generated)\b/i,
+    /\bgenerated by\b.*\b(?:protoc|codegen|generator)\b/i,
+];
+
+// Minified and bundled code, inlined data
+const MAX_LINE_LENGTH = 1000;
+
+const GENERATED_NAMES = [
+    /\.min\.(?:js|css)$/,
+    /[.-]bundle\.js$/,
+    /\.pb\.(?:go|cc|h)$/,
+    /_pb2(?:_grpc)?\.py$/,
+    /_pb\.(?:js|d\.ts)$/,
+    /\.generated\.\w+$/,
+    /(?:^|\/)(?:package-lock|npm-shrinkwrap)\.json$/,
+];
+
+const VENDORED_DIRS = /(?:^|\/)(?:third[_-]party|vendored)\//;
+
+/**
+ * Why a file looks generated, minified or vendored, from its path and contents: `name`,
+ * `vendored`, `marker` (a notice such as `@generated` or `DO NOT EDIT` near the top) or
+ * `minified` (very long lines). Null for ordinary source.
+ */
+export function detectGenerated(relPath: string, content: string): string | null {
+    const normalized = relPath.split(path.sep).join('/');
+    if (GENERATED_NAMES.some(re => re.test(normalized))) return 'name';
+    if (VENDORED_DIRS.test(normalized)) return 'vendored';
+
+    const lines = content.split('\n');
+    const header = lines.slice(0, HEADER_LINES).filter(line => COMMENT_LINE.test(line)).join('\n');
+    if (HEADER_MARKERS.some(re => re.test(header))) return 'marker';
+    if (lines.some(line => line.length > MAX_LINE_LENGTH)) return 'minified';
+    return null;
+}
+
+interface AttributeRule {
+    regex: RegExp;
+    dirOnly: boolean;
+    generated?: boolean;    // linguist-generated set or unset
+    vendored?: boolean;     // linguist-vendored set or unset
+}
+
+// `attr`, `attr=true` set it; `-attr`, `!attr`, `attr=false` unset it
+function attributeState(tokens: string[], name: string): boolean | undefined {
+    let state: boolean | undefined;
+    for (const token of tokens) {
+        if (token === name || token === `${name}=true`) state = true;
+        else if (token === `-${name}` || token === `!${name}` || token === `${name}=false`) state = false;
+    }
+    return state;
+}
+
+export interface GeneratedAttributes {
+    /** `attribute`/`vendored` when marked, null when explicitly unmarked, undefined without a rule */
+    match(relPath: string): string | null | undefined;
+    source: string;         // the rules read, so callers can tell when they change
+}
+
+/**
+ * `linguist-generated` and `linguist-vendored` from the root `.gitattributes`. As in git,
+ * the last matching line decides each attribute; a file marked either way overrides
+ * `detectGenerated`.
+ */
+export function loadGeneratedAttributes(rootDir: string): GeneratedAttributes {
+    let source = '';
+    try {
+        source = fs.readFileSync(path.join(rootDir, '.gitattributes'), 'utf-8');
+    } catch {
+        // no attributes
+    }
+
+    const rules: AttributeRule[] = [];
+    for (const line of source.split(/\r?\n/)) {
+        const [pattern, ...tokens] = line.trim().split(/\s+/);
+        if (!pattern || pattern.startsWith('#')) continue;
+        const generated = attributeState(tokens, 'linguist-generated');
+        const vendored = attributeState(tokens, 'linguist-vendored');
+        if (generated === undefined && vendored === undefined) continue;
+        const compiled = compileGitPattern(pattern);
+        if (compiled) rules.push({ ...compiled, generated, vendored });
+    }
+
+    return {
+        match(relPath) {
+            const normalized = relPath.split(path.sep).join('/');
+            let generated: boolean | undefined;
+            let vendored: boolean | undefined;
+            for (const rule of rules) {
+                // Attributes of a directory don't apply to the files in it
+                if (rule.dirOnly || !rule.regex.test(normalized)) continue;
+                generated = rule.generated ?? generated;
+                vendored = rule.vendored ?? vendored;
+            }
+            if (generated) return 'attribute';
+            if (vendored) return 'vendored';
+            return generated === false || vendored === false ? null : undefined;
+        },
+        source,
+    };
+}
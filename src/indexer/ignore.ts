@@ -0,0 +1,124 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { compileGlob } from '../utils';
+
+interface IgnoreRule {
+    regex: RegExp;
+    negated: boolean;
+    dirOnly: boolean;       // pattern ended in `/`
+}
+
+// Rules of one ignore file, matched against paths relative to `base`
+interface RuleSet {
+    base: string;           // directory holding the file, relative to the root ('' for the root)
+    rules: IgnoreRule[];
+}
+
+// Read in each directory; later files override earlier ones, as deeper directories override shallower
+export const IGNORE_FILES = ['.gitignore', '.codexignore'];
+
+export interface IgnoreMatcher {
+    ignores(relPath: string, isDir: boolean): boolean;
+}
+
+/**
+ * Compile a path pattern as git does for ignore and attribute files: a trailing `/` matches
+ * directories only, and a leading or inner `/` anchors it to the file's directory.
+ */
+export function compileGitPattern(pattern: string): { regex: RegExp; dirOnly: boolean } | null {
+    const dirOnly = pattern.endsWith('/');
+    if (dirOnly) pattern = pattern.slice(0, -1);
+    const anchored = pattern.includes('/');
+    if (pattern.startsWith('/')) pattern = pattern.slice(1);
+    if (!pattern) return null;
+    return { regex: compileGlob(pattern, anchored), dirOnly };
+}
+
+// gitignore syntax: `#` comments, `!` negation and `\` escapes around each pattern
+export function parseIgnoreRules(content: string): IgnoreRule[] {
+    const rules: IgnoreRule[] = [];
+    for (let line of content.split(/\r?\n/)) {
+        // Trailing spaces are dropped unless escaped
+        line = line.replace(/(?<!\\)\s+$/, '');
+        if (!line || line.startsWith('#')) continue;
+
+        let negated = false;
+        if (line.startsWith('!')) {
+            negated = true;
+            line = line.slice(1);
+        } else if (line.startsWith('\\#') || line.startsWith('\\!')) {
+            line = line.slice(1);
+        }
+
+        const pattern = compileGitPattern(line);
+        if (pattern) rules.push({ ...pattern, negated });
+    }
+    return rules;
+}
+
+function readRules(file: string): IgnoreRule[] {
+    try {
+        return parseIgnoreRules(fs.readFileSync(file, 'utf-8'));
+    } catch {
+        return [];
+    }
+}
+
+// `.git` is a directory, or a file pointing at one (worktrees, submodules)
+function gitDir(rootDir: string): string | null {
+    const dotGit = path.join(rootDir, '.git');
+    try {
+        if (fs.statSync(dotGit).isDirectory()) return dotGit;
+        const match = /^gitdir:\s*(.+)$/m.exec(fs.readFileSync(dotGit, 'utf-8'));
+        return match ? path.resolve(rootDir, match[1].trim()) : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Matcher for the project's `.gitignore` files (in any directory), `.git/info/exclude` and
+ * `.codexignore` files, following git's precedence: the last matching rule wins, rules in
+ * deeper directories override shallower ones, and `info/exclude` ranks lowest. Callers are
+ * expected to skip the contents of ignored directories, since git never re-includes them.
+ * Ignore files are read lazily per directory and cached.
+ */
+export function createIgnoreMatcher(rootDir: string): IgnoreMatcher {
+    const git = gitDir(rootDir);
+    const globalRules: RuleSet = { base: '', rules: git ? readRules(path.join(git, 'info', 'exclude')) : [] };
+    const dirRules = new Map<string, RuleSet[]>();
+
+    function rulesFor(dir: string): RuleSet[] {
+        let sets = dirRules.get(dir);
+        if (!sets) {
+            sets = IGNORE_FILES
+                .map(name => ({ base: dir, rules: readRules(path.join(rootDir, dir, name)) }))
+                .filter(set => set.rules.length > 0);
+            dirRules.set(dir, sets);
+        }
+        return sets;
+    }
+
+    return {
+        ignores(relPath, isDir) {
+            const normalized = relPath.split(path.sep).join('/');
+            const parts = normalized.split('/');
+            // Lowest precedence first: info/exclude, then each directory from the root down
+            const sets = [globalRules];
+            for (let i = 0; i < parts.length; i++) {
+                sets.push(...rulesFor(parts.slice(0, i).join(path.sep)));
+            }
+
+            let ignored = false;
+            for (const set of sets) {
+                const base = set.base.split(path.sep).join('/');
+                const subject = base ? normalized.slice(base.length + 1) : normalized;
+                for (const rule of set.rules) {
+                    if (rule.dirOnly && !isDir) continue;
+                    if (rule.regex.test(subject)) ignored = !rule.negated;
+                }
+            }
+            return ignored;
+        },
+    };
+}
@@ -2,11 +2,31 @@ import * as fs from 'fs';
 import * as path from 'path';
 import Database from 'better-sqlite3';
 import {
-    openDatabase, getOrCreateFile, clearFileData,
-    insertSymbol, insertEdge, insertFileDep, removeStaleFiles, removeFile
+    openDatabase, getOrCreateFile, syncFileSymbols, clearFileLinks, insertEdge, insertOccurrence,
+    insertPendingRef, insertExternalRef, insertFileDep, setFileImports, setFileGenerated, removeStaleFiles, removeFile, getMeta, setMeta
 } from '../db/schema';
-import { collectFiles } from './collector';
-import { parseFile, hashFile, getLanguage } from './parser';
+import { CodexConfig, loadConfig } from '../config';
+import { formatMs } from '../utils';
+import { collectFileStats, createFileFilter } from './collector';
+import { parseFile, hashFile, getLanguage, ImportBinding, ExtractedImport, ParseResult } from './parser';
+import {
+    loadResolverContext, resolveImportPath, resolveSubmodule, resolveGoPackage, externalPackage, ResolverContext,
+    hashResolverInputs, isResolverInput,
+} from './resolver';
+import { parseFiles, defaultWorkerCount, ParseTask, ParsedFile } from './pool';
+import { detectGenerated, loadGeneratedAttributes, GeneratedAttributes } from './generated';
+
+export type IndexPhase = 'collect' | 'parse' | 'resolve' | 'rank';
+
+// Milliseconds per phase. `parse` is wall time of reading, parsing and storing files;
+// `store` is the part of it the main thread spent writing to SQLite.
+export interface PhaseTimings {
+    collect: number;
+    parse: number;
+    store: number;
+    resolve: number;
+    rank: number;
+}
 
 export interface IndexStats {
     totalFiles: number;
@@ -15,171 +35,778 @@ export interface IndexStats {
     symbols: number;
     edges: number;
     timeMs: number;
+    workers: number;
+    phases: PhaseTimings;
+}
+
+export interface IndexProgress {
+    phase: IndexPhase;
+    done: number;
+    total: number;
+    elapsedMs: number;      // since the phase started
+}
+
+export interface IndexOptions {
+    verbose?: boolean;      // report progress on stderr
+    verify?: boolean;       // hash every file, even when its mtime and size match the index, and resolve every import again
+    workers?: number;       // parser threads; defaults to CPU count - 1, 0 parses on the main thread
+    onProgress?: (progress: IndexProgress) => void;
+}
+
+interface ResolvedImport {
+    resolved: string;
+    names: string[];
+    bindings: ImportBinding[];
+    reexport?: boolean;
+    dynamic?: boolean;
+}
+
+// An import that resolved to no indexed file: an external package, or a missing local file
+interface UnresolvedImport {
+    source: string;
+    package: string | null;
+    bindings: ImportBinding[];
+    line?: number;
+}
+
+// Looks up a name exported from a file, following re-exports
+type ExportLookup = (file: string, name: string) => number | undefined;
+
+// What each file exports; files not parsed in this run are read from the index on first use
+interface ExportTables {
+    exportMaps: Map<string, Map<string, number>>;   // filePath -> (exportedName -> symbolId)
+    reexportMaps: Map<string, ResolvedImport[]>;    // `export ... from`
+    exports(file: string): Map<string, number>;
+    reexports(file: string): ResolvedImport[];
+}
+
+interface PendingEdge {
+    fromId: number;
+    targetName: string;
+    kind: string;
+    line: number;
+    column: number;
 }
 
-function resolveImportPath(rootDir: string, fromFile: string, importSource: string): string | null {
-    // Skip non-relative imports (packages)
-    if (!importSource.startsWith('.') && !importSource.startsWith('/')) return null;
+interface ExportCandidate {
+    id: number;
+    name: string;
+    qualifiedName: string | null;
+    exported: boolean;
+}
 
-    const fromDir = path.dirname(path.join(rootDir, fromFile));
-    const resolved = path.resolve(fromDir, importSource);
-    const rel = path.relative(rootDir, resolved);
+// Edge kind → kind of the occurrence recorded at the reference site; others keep the edge kind
+const OCCURRENCE_KINDS: Record<string, string> = {
+    calls: 'call',
+    uses_type: 'type_use',
+};
 
-    const extensions = ['.ts', '.tsx', '.js', '.jsx', '.py', '.rs', '.go', ''];
-    const indexFiles = ['/index.ts', '/index.tsx', '/index.js', '/index.jsx'];
+// `Foo.bar` → `.`, `Foo::bar` → `::`
+// Calling a class instantiates it: Python has no `new`, and the class may well be imported
+function refKind(kind: string, targetKind: string | undefined): string {
+    return kind === 'calls' && targetKind === 'class' ? 'instantiates' : kind;
+}
 
-    // Try direct match with extensions
-    for (const ext of extensions) {
-        const candidate = rel + ext;
-        if (fs.existsSync(path.join(rootDir, candidate))) return candidate;
+function memberSeparator(name: string): string {
+    return name.includes('::') ? '::' : '.';
+}
+
+/**
+ * Names a C/C++ reference may mean, innermost scope first: inside `geo::Shape::draw`, `area`
+ * is `geo::Shape::area`, else `geo::area`, else plain `area`.
+ */
+function cScopedNames(from: string, target: string): string[] {
+    const scopes = from.split('::').slice(0, -1);
+    const names: string[] = [];
+    for (let i = scopes.length; i > 0; i--) names.push(`${scopes.slice(0, i).join('::')}::${target}`);
+    names.push(target);
+    return names;
+}
+
+/**
+ * Map of names a file makes visible to importers. Members of exported classes are
+ * included under their qualified name so `Foo.create()` on an imported `Foo` resolves.
+ */
+function buildExportMap(symbols: ExportCandidate[]): Map<string, number> {
+    const exportMap = new Map<string, number>();
+    // Top-level names first so a member never shadows a same-named top-level export
+    for (const s of symbols) {
+        if (s.exported && !s.qualifiedName) exportMap.set(s.name, s.id);
+    }
+    for (const s of symbols) {
+        if (!s.exported || !s.qualifiedName) continue;
+        exportMap.set(s.qualifiedName, s.id);
+        if (!exportMap.has(s.name)) exportMap.set(s.name, s.id);
     }
+    for (const s of symbols) {
+        if (s.exported || !s.qualifiedName) continue;
+        const sep = memberSeparator(s.qualifiedName);
+        const owner = s.qualifiedName.slice(0, s.qualifiedName.lastIndexOf(sep));
+        if (owner && exportMap.has(owner) && !exportMap.has(s.qualifiedName)) {
+            exportMap.set(s.qualifiedName, s.id);
+        }
+    }
+    return exportMap;
+}
 
-    // Try index files in directory
-    for (const idx of indexFiles) {
-        const candidate = rel + idx;
-        if (fs.existsSync(path.join(rootDir, candidate))) return candidate;
+/**
+ * Resolve a name like `fn`, `alias`, `ns.fn` or `Imported.method` (`mod::fn` in Rust)
+ * through the importing file's bindings to the exact exported symbol in the target file.
+ */
+function resolveImportedName(
+    name: string,
+    imports: ResolvedImport[],
+    lookup: ExportLookup
+): number | undefined {
+    const sep = memberSeparator(name);
+    const idx = name.indexOf(sep);
+    const head = idx === -1 ? name : name.slice(0, idx);
+    const member = idx === -1 ? null : name.slice(idx + sep.length);
+
+    for (const imp of imports) {
+        // Python `import pkg.mod` binds the dotted path; calls are recorded as `mod.fn`.
+        // `const m = require()` binds m twice: as a namespace and as the module's single export.
+        const bindings = imp.bindings.filter(b => b.local === head || b.local.endsWith(`.${head}`));
+
+        // A Go package spans several files, so keep looking if this one lacks the name
+        for (const binding of bindings) {
+            let targetId: number | undefined;
+            if (binding.imported === '*') {
+                targetId = member ? lookup(imp.resolved, member) : undefined;
+            } else {
+                // Default exports are not tracked by name; assume the conventional `import Foo from './Foo'`
+                const target = binding.imported === 'default' ? binding.local : binding.imported;
+                targetId = lookup(imp.resolved, member ? `${target}${sep}${member}` : target);
+            }
+            if (targetId) return targetId;
+        }
     }
 
-    return null;
+    // `from x import *` / `use x::*` brings every public name into scope
+    if (!member) {
+        for (const imp of imports) {
+            if (!imp.bindings.some(b => b.local === '*')) continue;
+            const targetId = lookup(imp.resolved, name);
+            if (targetId) return targetId;
+        }
+    }
+    return undefined;
 }
 
-export function indexProject(rootDir: string, options?: { verbose?: boolean }): IndexStats {
-    const start = performance.now();
-    const db = openDatabase(rootDir);
-    const files = collectFiles(rootDir);
-    const verbose = options?.verbose ?? false;
+/**
+ * The package and name a reference like `create`, `axios.create` or `np.array` reaches
+ * through an import of an external package, mirroring `resolveImportedName`.
+ */
+function resolveExternalName(name: string, unresolved: UnresolvedImport[]): { imp: UnresolvedImport; name: string } | undefined {
+    const sep = memberSeparator(name);
+    const idx = name.indexOf(sep);
+    const head = idx === -1 ? name : name.slice(0, idx);
+    const member = idx === -1 ? null : name.slice(idx + sep.length);
+
+    for (const imp of unresolved) {
+        if (!imp.package) continue;
+        const binding = imp.bindings.find(b => b.local === head || b.local.endsWith(`.${head}`));
+        if (!binding) continue;
+        if (binding.imported === '*' || binding.imported === 'default') {
+            return { imp, name: member ?? binding.imported };
+        }
+        return { imp, name: member ? `${binding.imported}${sep}${member}` : binding.imported };
+    }
+    return undefined;
+}
 
-    let indexedFiles = 0;
-    let skippedFiles = 0;
-    let totalSymbols = 0;
-    let totalEdges = 0;
+/**
+ * Find `name` exported from `file`, following `export ... from` re-exports through barrel
+ * files to the defining symbol. Renames map back to the original name; a chain that
+ * revisits a file/name pair is a cycle and resolves to nothing.
+ */
+function resolveExport(
+    file: string,
+    name: string,
+    tables: ExportTables,
+    seen: Set<string> = new Set()
+): number | undefined {
+    const key = `${file}\0${name}`;
+    if (seen.has(key)) return undefined;
+    seen.add(key);
+
+    const direct = tables.exports(file).get(name);
+    if (direct) return direct;
+
+    const sep = memberSeparator(name);
+    const idx = name.indexOf(sep);
+    const head = idx === -1 ? name : name.slice(0, idx);
+    const member = idx === -1 ? null : name.slice(idx + sep.length);
+
+    for (const reexport of tables.reexports(file)) {
+        for (const binding of reexport.bindings) {
+            const original = binding.imported === 'default' ? binding.local : binding.imported;
+            let target: string | null = null;
+            if (binding.local === '*') {
+                target = name;
+            } else if (binding.local === name && binding.imported !== '*') {
+                target = original;
+            } else if (member && binding.local === head) {
+                // `export * as ns` re-exports a namespace; `ns.fn` is `fn` in the target
+                target = binding.imported === '*' ? member : `${original}${sep}${member}`;
+            }
+            if (!target) continue;
+            const targetId = resolveExport(reexport.resolved, target, tables, seen);
+            if (targetId) return targetId;
+        }
+    }
+    return undefined;
+}
 
-    // Track file -> symbol IDs and file -> imported file paths
-    const fileSymbolMap = new Map<string, Map<string, number>>(); // filePath -> (symbolName -> symbolId)
-    const fileImportMap = new Map<string, { resolved: string; names: string[] }[]>();
-    const validPaths = new Set(files);
-
-    const transaction = db.transaction(() => {
-        for (const relPath of files) {
-            const fullPath = path.join(rootDir, relPath);
-            let content: string;
-            try {
-                content = fs.readFileSync(fullPath, 'utf-8');
-            } catch {
-                skippedFiles++;
-                continue;
+// Re-export bindings are stored one file dep each, spelled as in source (`a as b`, `* as ns`)
+function reexportSpec(binding: ImportBinding): string {
+    if (binding.local === '*') return '*';
+    if (binding.imported === '*') return `* as ${binding.local}`;
+    return binding.local === binding.imported ? binding.local : `${binding.imported} as ${binding.local}`;
+}
+
+function parseReexportSpec(spec: string): ImportBinding {
+    if (spec === '*') return { local: '*', imported: '*' };
+    const [imported, local] = spec.split(' as ');
+    return { local: local ?? imported, imported };
+}
+
+function fileDepEntries(imp: ResolvedImport): { kind: string; importName: string }[] {
+    if (imp.reexport) {
+        return imp.bindings.map(b => ({ kind: 'reexport', importName: reexportSpec(b) }));
+    }
+    return [{ kind: imp.dynamic ? 'dynamic' : 'import', importName: imp.names.length > 0 ? imp.names.join(',') : '*' }];
+}
+
+/**
+ * Resolve an import statement to the files it depends on. Python `from pkg import mod`
+ * and Rust `use pkg::mod` also depend on the submodule file when `mod` is not a symbol.
+ */
+function resolveImport(ctx: ResolverContext, fromFile: string, imp: ExtractedImport): ResolvedImport[] {
+    // Go imports name a package directory; depend on every file in it
+    if (getLanguage(fromFile) === 'go') {
+        return resolveGoPackage(ctx, fromFile, imp.source)
+            .map(resolved => ({ resolved, names: imp.names, bindings: imp.bindings }));
+    }
+
+    const results: ResolvedImport[] = [];
+    const resolved = resolveImportPath(ctx, fromFile, imp.source);
+    const symbolBindings: ImportBinding[] = [];
+
+    if (['python', 'rust'].includes(getLanguage(fromFile) || '')) {
+        for (const binding of imp.bindings) {
+            const submodule = binding.imported === '*'
+                ? null
+                : resolveSubmodule(ctx, fromFile, imp.source, binding.imported);
+            if (submodule) {
+                results.push({ resolved: submodule, names: [binding.imported], bindings: [{ local: binding.local, imported: '*' }] });
+            } else {
+                symbolBindings.push(binding);
             }
+        }
+    } else {
+        symbolBindings.push(...imp.bindings);
+    }
+
+    if (resolved) {
+        const submoduleNames = new Set(results.flatMap(r => r.names));
+        results.unshift({
+            resolved,
+            names: imp.names.filter(n => !submoduleNames.has(n)),
+            bindings: symbolBindings,
+            reexport: imp.reexport,
+            dynamic: imp.dynamic,
+        });
+    }
+    return results;
+}
 
-            const hash = hashFile(content);
-            const language = getLanguage(relPath);
-            const lineCount = content.split('\n').length;
-            const fileRecord = getOrCreateFile(db, relPath, hash, language, lineCount);
-
-            if (!fileRecord.changed) {
-                skippedFiles++;
-                // Still need to track existing symbols for cross-file resolution
-                const existingSymbols = db.prepare(
-                    'SELECT id, name, qualified_name, exported FROM symbols WHERE file_id = ?'
-                ).all(fileRecord.id) as { id: number; name: string; qualified_name: string | null; exported: number }[];
-                const symbolMap = new Map<string, number>();
-                for (const s of existingSymbols) {
-                    if (s.exported) {
-                        symbolMap.set(s.name, s.id);
-                        if (s.qualified_name) symbolMap.set(s.qualified_name, s.id);
-                    }
-                }
-                fileSymbolMap.set(relPath, symbolMap);
-                continue;
+// A file's imports resolved to indexed files, and the references it leaves to them
+interface FileLinks {
+    path: string;
+    id: number;
+    imports: ResolvedImport[];
+    reexports: ResolvedImport[];
+    unresolved: UnresolvedImport[];
+    reexportSymbols: Map<string, number>;   // barrel symbol per re-exported name
+    pending: PendingEdge[];
+}
+
+interface FileRef {
+    id: number;
+    path: string;
+}
+
+function resolveImports(
+    ctx: ResolverContext,
+    relPath: string,
+    extracted: ExtractedImport[]
+): { imports: ResolvedImport[]; reexports: ResolvedImport[]; unresolved: UnresolvedImport[] } {
+    const imports: ResolvedImport[] = [];
+    const reexports: ResolvedImport[] = [];
+    const unresolved: UnresolvedImport[] = [];
+    for (const imp of extracted) {
+        const resolved = resolveImport(ctx, relPath, imp);
+        if (resolved.length === 0) {
+            unresolved.push({
+                source: imp.source, package: externalPackage(ctx, relPath, imp.source), bindings: imp.bindings, line: imp.line,
+            });
+        }
+        (imp.reexport ? reexports : imports).push(...resolved);
+    }
+    return { imports, reexports, unresolved };
+}
+
+function createExportTables(db: Database.Database): ExportTables {
+    const selectExports = db.prepare(`
+        SELECT s.id, s.name, s.qualified_name, s.exported FROM symbols s JOIN files f ON f.id = s.file_id
+        WHERE f.path = ? AND s.kind != 'reexport'
+    `);
+    const selectReexports = db.prepare(`
+        SELECT t.path, fd.import_name FROM file_deps fd
+        JOIN files f ON f.id = fd.from_file JOIN files t ON t.id = fd.to_file
+        WHERE f.path = ? AND fd.kind = 'reexport'
+    `);
+    const tables: ExportTables = {
+        exportMaps: new Map(),
+        reexportMaps: new Map(),
+        exports(file) {
+            let exportMap = tables.exportMaps.get(file);
+            if (!exportMap) {
+                const rows = selectExports.all(file) as { id: number; name: string; qualified_name: string | null; exported: number }[];
+                exportMap = buildExportMap(rows.map(s => ({
+                    id: s.id, name: s.name, qualifiedName: s.qualified_name, exported: !!s.exported,
+                })));
+                tables.exportMaps.set(file, exportMap);
+            }
+            return exportMap;
+        },
+        reexports(file) {
+            let reexports = tables.reexportMaps.get(file);
+            if (!reexports) {
+                const rows = selectReexports.all(file) as { path: string; import_name: string }[];
+                reexports = rows.map(d => ({
+                    resolved: d.path, names: [], bindings: [parseReexportSpec(d.import_name)], reexport: true,
+                }));
+                tables.reexportMaps.set(file, reexports);
             }
+            return reexports;
+        },
+    };
+    return tables;
+}
 
-            clearFileData(db, fileRecord.id);
-            const parsed = parseFile(relPath, content);
-
-            const symbolMap = new Map<string, number>();
-
-            for (const sym of parsed.symbols) {
-                const symId = insertSymbol(db, fileRecord.id, {
-                    name: sym.name,
-                    qualifiedName: sym.qualifiedName,
-                    kind: sym.kind,
-                    lineStart: sym.lineStart,
-                    lineEnd: sym.lineEnd,
-                    signature: sym.signature,
-                    docstring: sym.docstring,
-                    content: sym.content,
-                    exported: sym.exported,
-                });
-                symbolMap.set(sym.name, symId);
-                if (sym.qualifiedName) symbolMap.set(sym.qualifiedName, symId);
-                totalSymbols++;
+/**
+ * Write a changed file's symbols, imports and the references that resolve inside it. The
+ * rest are stored as pending references for `linkFile`. Returns the file's links, its
+ * export candidates and the number of edges written.
+ */
+function storeParsedFile(
+    db: Database.Database,
+    ctx: ResolverContext,
+    fileId: number,
+    relPath: string,
+    parsed: ParseResult
+): { links: FileLinks; exportCandidates: ExportCandidate[]; edges: number } {
+    const symbolIds = syncFileSymbols(db, fileId, parsed.symbols);
+
+    const symbolMap = new Map<string, number>();
+    const symbolKinds = new Map<number, string>();
+    const reexportSymbols = new Map<string, number>();
+    const exportCandidates: ExportCandidate[] = [];
+
+    for (const [i, sym] of parsed.symbols.entries()) {
+        const symId = symbolIds[i];
+        // Re-exported names resolve through the barrel to their definition, never to the barrel
+        if (sym.kind === 'reexport') {
+            reexportSymbols.set(sym.name, symId);
+            continue;
+        }
+        symbolMap.set(sym.name, symId);
+        symbolKinds.set(symId, sym.kind);
+        if (sym.qualifiedName) symbolMap.set(sym.qualifiedName, symId);
+        exportCandidates.push({
+            id: symId, name: sym.name, qualifiedName: sym.qualifiedName || null, exported: !!sym.exported,
+        });
+    }
+
+    // Resolve imports to file paths; the imports are kept so they can be resolved again later
+    const { imports, reexports, unresolved } = resolveImports(ctx, relPath, parsed.imports);
+    setFileImports(db, fileId, parsed.imports, unresolved.length);
+
+    // Create intra-file call/relation edges; unknown names may target an import
+    let edges = 0;
+    const pending: PendingEdge[] = [];
+    const references = [
+        ...parsed.calls.map(c => ({ from: c.callerSymbol, target: c.calledName, kind: 'calls', line: c.line, column: c.column })),
+        ...parsed.relations.map(r => ({ from: r.fromSymbol, target: r.targetName, kind: r.kind, line: r.line, column: r.column })),
+    ];
+    const scoped = parsed.language === 'c' || parsed.language === 'cpp';
+    for (const ref of references) {
+        const fromId = symbolMap.get(ref.from);
+        if (!fromId) continue;
+        const targetId = scoped
+            ? cScopedNames(ref.from, ref.target).map(name => symbolMap.get(name)).find(id => id !== undefined)
+            : symbolMap.get(ref.target);
+        if (targetId) {
+            const kind = refKind(ref.kind, symbolKinds.get(targetId));
+            if (fromId !== targetId) {
+                insertEdge(db, fromId, targetId, kind);
+                edges++;
             }
+            // Recursive calls are still references, even without an edge
+            insertOccurrence(db, {
+                symbolId: targetId, fromId, fileId,
+                line: ref.line, column: ref.column, kind: OCCURRENCE_KINDS[kind] || kind,
+            });
+        } else if (parsed.imports.length > 0) {
+            const edge = { fromId, targetName: ref.target, kind: ref.kind, line: ref.line, column: ref.column };
+            pending.push(edge);
+            insertPendingRef(db, { fileId, ...edge });
+        }
+    }
+
+    return {
+        links: { path: relPath, id: fileId, imports, reexports, unresolved, reexportSymbols, pending },
+        exportCandidates,
+        edges,
+    };
+}
+
+/**
+ * Record whether a changed file is generated, minified or vendored (`.gitattributes` has the
+ * last word over `detected`) and return what to store of it. Excluded files keep their row,
+ * so unchanged ones aren't read again, but contribute no symbols or imports.
+ */
+function settleGenerated(
+    db: Database.Database,
+    config: CodexConfig,
+    attributes: GeneratedAttributes,
+    fileId: number,
+    relPath: string,
+    detected: string | null,
+    parsed: ParseResult
+): ParseResult {
+    const marked = attributes.match(relPath);
+    const generated = marked === undefined ? detected : marked;
+    setFileGenerated(db, fileId, generated);
+    if (!generated || config.generated !== 'exclude') return parsed;
+    return { symbols: [], imports: [], calls: [], relations: [], language: parsed.language };
+}
 
-            fileSymbolMap.set(relPath, symbolMap);
-
-            // Resolve imports to file paths
-            const resolvedImports: { resolved: string; names: string[] }[] = [];
-            for (const imp of parsed.imports) {
-                const resolved = resolveImportPath(rootDir, relPath, imp.source);
-                if (resolved) {
-                    // Create file dep
-                    const toFile = db.prepare('SELECT id FROM files WHERE path = ?').get(resolved) as { id: number } | undefined;
-                    if (toFile) {
-                        const importName = imp.names.length > 0 ? imp.names.join(',') : '*';
-                        insertFileDep(db, fileRecord.id, toFile.id, 'import', importName);
-                    }
-                    resolvedImports.push({ resolved, names: imp.names });
-                }
+/**
+ * Write a file's cross-file part of the graph: file deps, import occurrences, edges for its
+ * pending references, re-export edges and references to external packages. Every target file must already have its row and
+ * symbols. Idempotent, so unchanged files can be linked again. Returns the edges written.
+ */
+function linkFile(db: Database.Database, links: FileLinks, tables: ExportTables): number {
+    const lookup: ExportLookup = (file, name) => resolveExport(file, name, tables);
+    const getFileId = db.prepare('SELECT id FROM files WHERE path = ?');
+    const getSymbolKind = db.prepare('SELECT kind FROM symbols WHERE id = ?');
+    let edges = 0;
+
+    clearFileLinks(db, links.id);
+    for (const imp of [...links.imports, ...links.reexports]) {
+        const toFile = getFileId.get(imp.resolved) as { id: number } | undefined;
+        if (toFile) {
+            for (const dep of fileDepEntries(imp)) {
+                insertFileDep(db, links.id, toFile.id, dep.kind, dep.importName);
             }
-            fileImportMap.set(relPath, resolvedImports);
-
-            // Create intra-file call edges
-            for (const call of parsed.calls) {
-                const callerId = symbolMap.get(call.callerSymbol);
-                const calledId = symbolMap.get(call.calledName);
-                if (callerId && calledId && callerId !== calledId) {
-                    insertEdge(db, callerId, calledId, 'calls');
-                    totalEdges++;
-                }
+        }
+        // Each imported name is an occurrence of the symbol it binds; re-exports are recorded below
+        if (imp.reexport) continue;
+        for (const binding of imp.bindings) {
+            if (binding.imported === '*' || binding.line === undefined) continue;
+            const symbolId = lookup(imp.resolved, binding.imported === 'default' ? binding.local : binding.imported);
+            if (symbolId) {
+                insertOccurrence(db, {
+                    symbolId, fromId: null, fileId: links.id,
+                    line: binding.line, column: binding.column!, kind: 'import',
+                });
             }
+        }
+    }
 
-            indexedFiles++;
-            if (verbose && indexedFiles % 100 === 0) {
-                process.stderr.write(`  Indexed ${indexedFiles} files...\n`);
+    // Imports of external packages and of missing local files
+    for (const imp of links.unresolved) {
+        const bindings: ImportBinding[] = imp.bindings.length > 0 ? imp.bindings : [{ local: '*', imported: '*' }];
+        for (const binding of bindings) {
+            insertExternalRef(db, {
+                fileId: links.id, fromId: null, package: imp.package, source: imp.source, name: binding.imported,
+                kind: 'import', line: binding.line ?? imp.line ?? null, column: binding.column ?? null,
+            });
+        }
+    }
+
+    // Cross-file edge resolution: calls and relations through import bindings; the rest may
+    // use an external package
+    for (const pending of links.pending) {
+        const targetId = links.imports.length > 0 ? resolveImportedName(pending.targetName, links.imports, lookup) : undefined;
+        if (targetId && targetId !== pending.fromId) {
+            const kind = refKind(pending.kind, (getSymbolKind.get(targetId) as { kind: string } | undefined)?.kind);
+            insertEdge(db, pending.fromId, targetId, kind);
+            insertOccurrence(db, {
+                symbolId: targetId, fromId: pending.fromId, fileId: links.id,
+                line: pending.line, column: pending.column, kind: OCCURRENCE_KINDS[kind] || kind,
+            });
+            edges++;
+        } else if (!targetId) {
+            const external = resolveExternalName(pending.targetName, links.unresolved);
+            if (external) {
+                insertExternalRef(db, {
+                    fileId: links.id, fromId: pending.fromId, package: external.imp.package, source: external.imp.source,
+                    name: external.name, kind: pending.kind, line: pending.line, column: pending.column,
+                });
             }
         }
+    }
 
-        // Remove stale files
-        removeStaleFiles(db, validPaths);
-
-        // Cross-file edge resolution
-        for (const [filePath, resolvedImports] of fileImportMap) {
-            const importingSymbols = fileSymbolMap.get(filePath);
-            if (!importingSymbols) continue;
-
-            for (const imp of resolvedImports) {
-                const exportedSymbols = fileSymbolMap.get(imp.resolved);
-                if (!exportedSymbols) continue;
-
-                for (const importedName of imp.names) {
-                    const targetId = exportedSymbols.get(importedName);
-                    if (targetId) {
-                        // Create REFERENCES edges from all symbols in importing file to imported symbol
-                        for (const [, srcId] of importingSymbols) {
-                            if (srcId !== targetId) {
-                                insertEdge(db, srcId, targetId, 'references');
-                                totalEdges++;
-                            }
-                        }
-                    }
-                }
+    // Named re-exports link the barrel's symbol to the definition at the end of the chain
+    for (const reexport of links.reexportSymbols.size > 0 ? links.reexports : []) {
+        for (const binding of reexport.bindings) {
+            const symId = links.reexportSymbols.get(binding.local);
+            if (!symId || binding.imported === '*') continue;
+            const targetId = lookup(reexport.resolved, binding.imported === 'default' ? binding.local : binding.imported);
+            if (!targetId) continue;
+            insertEdge(db, symId, targetId, 'reexports');
+            edges++;
+            if (binding.line !== undefined) {
+                insertOccurrence(db, {
+                    symbolId: targetId, fromId: symId, fileId: links.id,
+                    line: binding.line, column: binding.column!, kind: 'reexport',
+                });
             }
         }
+    }
+    return edges;
+}
+
+/**
+ * Files that import any of `fileIds`, directly or through barrels re-exporting them. Their
+ * references into those files must be resolved again when the files change.
+ */
+function dependentFiles(db: Database.Database, fileIds: number[]): FileRef[] {
+    if (fileIds.length === 0) return [];
+    return db.prepare(`
+        WITH RECURSIVE targets(id) AS (
+            SELECT value FROM json_each(?)
+            UNION
+            SELECT fd.from_file FROM file_deps fd JOIN targets t ON fd.to_file = t.id WHERE fd.kind = 'reexport'
+        )
+        SELECT DISTINCT f.id, f.path FROM file_deps fd
+        JOIN targets t ON fd.to_file = t.id
+        JOIN files f ON f.id = fd.from_file
+    `).all(JSON.stringify(fileIds)) as FileRef[];
+}
+
+/**
+ * Files with imports that resolved to nothing and that mention a new file's stem or
+ * directory (index files, packages), so may resolve to it now.
+ */
+function unresolvedImporters(db: Database.Database, newPaths: string[]): FileRef[] {
+    const hints = new Set<string>();
+    for (const relPath of newPaths) {
+        hints.add(path.basename(relPath, path.extname(relPath)));
+        const dir = path.basename(path.dirname(relPath));
+        if (dir !== '.') hints.add(dir);
+    }
+    const select = db.prepare(
+        "SELECT id, path FROM files WHERE unresolved_imports > 0 AND imports LIKE '%' || ? || '%'"
+    );
+    const found = new Map<number, FileRef>();
+    for (const hint of hints) {
+        for (const file of select.all(hint) as FileRef[]) found.set(file.id, file);
+    }
+    return [...found.values()];
+}
+
+/**
+ * Unchanged files to link again after `fileIds` changed or were removed and `newPaths` were
+ * added: their dependents, files whose unresolved imports may now resolve, and the
+ * dependents of those (a barrel that now resolves re-exports more). May include `fileIds`.
+ */
+function filesToRelink(db: Database.Database, fileIds: number[], newPaths: string[]): FileRef[] {
+    const retry = unresolvedImporters(db, newPaths);
+    const found = new Map<number, FileRef>();
+    for (const file of [...retry, ...dependentFiles(db, [...fileIds, ...retry.map(f => f.id)])]) {
+        found.set(file.id, file);
+    }
+    return [...found.values()];
+}
+
+/**
+ * Resolve unchanged files' stored imports and pending references again, e.g. after files
+ * they import changed. Returns the edges written.
+ */
+function relinkFiles(db: Database.Database, ctx: ResolverContext, files: FileRef[], tables: ExportTables): number {
+    const selectImports = db.prepare('SELECT imports FROM files WHERE id = ?');
+    const selectPending = db.prepare('SELECT from_id, target_name, kind, line, col FROM pending_refs WHERE file_id = ?');
+    const selectReexportSymbols = db.prepare("SELECT id, name FROM symbols WHERE file_id = ? AND kind = 'reexport'");
+
+    // Every file's re-exports are resolved before any is linked, since links follow re-export chains
+    const allLinks = files.map(file => {
+        const row = selectImports.get(file.id) as { imports: string | null } | undefined;
+        const extracted: ExtractedImport[] = row?.imports ? JSON.parse(row.imports) : [];
+        const { imports, reexports, unresolved } = resolveImports(ctx, file.path, extracted);
+        setFileImports(db, file.id, extracted, unresolved.length);
+        tables.reexportMaps.set(file.path, reexports);
+
+        const pending = (selectPending.all(file.id) as { from_id: number; target_name: string; kind: string; line: number; col: number }[])
+            .map(p => ({ fromId: p.from_id, targetName: p.target_name, kind: p.kind, line: p.line, column: p.col }));
+        const reexportSymbols = new Map(
+            (selectReexportSymbols.all(file.id) as { id: number; name: string }[]).map(s => [s.name, s.id])
+        );
+        return { path: file.path, id: file.id, imports, reexports, unresolved, reexportSymbols, pending };
     });
+    return allLinks.reduce((edges, links) => edges + linkFile(db, links, tables), 0);
+}
+
+// Parse progress every this many files, plus once when each phase finishes
+const PROGRESS_INTERVAL = 1000;
+
+function reportProgress(progress: IndexProgress): void {
+    if (progress.phase === 'parse' && progress.done < progress.total) {
+        process.stderr.write(`  Parsed ${progress.done}/${progress.total} files...\n`);
+    } else {
+        process.stderr.write(`  ${progress.phase}: ${progress.total} in ${formatMs(progress.elapsedMs)}\n`);
+    }
+}
+
+export async function indexProject(rootDir: string, options: IndexOptions = {}): Promise<IndexStats> {
+    const start = performance.now();
+    const phases: PhaseTimings = { collect: 0, parse: 0, store: 0, resolve: 0, rank: 0 };
+    const progress = options.onProgress ?? (options.verbose ? reportProgress : undefined);
+    const workers = options.workers ?? defaultWorkerCount();
+    const config = loadConfig(rootDir);
+    const db = openDatabase(rootDir);
+
+    let phaseStart = performance.now();
+    const filter = createFileFilter(rootDir, config);
+    const files = collectFileStats(rootDir, filter);
+    phases.collect = performance.now() - phaseStart;
+    progress?.({ phase: 'collect', done: files.length, total: files.length, elapsedMs: phases.collect });
+    const resolverCtx = loadResolverContext(rootDir, config);
+    const attributes = loadGeneratedAttributes(rootDir);
+
+    // Settings that change what a parse stores or how imports resolve make every file stale
+    const parseSettings = JSON.stringify({
+        limits: config.limits, sourceRoots: config.sourceRoots, importPaths: config.importPaths,
+        generated: config.generated, attributes: hashFile(attributes.source), workspace: resolverCtx.workspace,
+    });
+    const reparseAll = getMeta(db, 'parse_settings') !== parseSettings;
+    // Alias configs, manifests and build files only change where imports lead: unchanged files are linked again
+    const resolverInputs = hashResolverInputs(rootDir, relDir => filter.skipDir(relDir));
+    const relinkAll = options.verify || getMeta(db, 'resolver_inputs') !== resolverInputs;
+
+    let indexedFiles = 0;
+    let skippedFiles = 0;
+    let removedFiles = 0;
+    let totalSymbols = 0;
+    let totalEdges = 0;
+
+    // Links of changed files, resolved once all of them are stored. Only changed files and
+    // their dependents are resolved, so only the files they reach are ever loaded.
+    const fileLinks = new Map<string, FileLinks>();
+    const tables = createExportTables(db);
+    const fileStats = new Map(files.map(f => [f.path, f]));
+    const validPaths = new Set(fileStats.keys());
+
+    // Files whose mtime and size match the index are not read at all
+    const known = new Map(
+        (db.prepare('SELECT id, path, content_hash, last_modified, size FROM files').all() as
+            { id: number; path: string; content_hash: string; last_modified: number | null; size: number | null }[])
+            .map(f => [f.path, f])
+    );
+    const tasks: ParseTask[] = [];
+    for (const file of files) {
+        const record = known.get(file.path);
+        if (reparseAll) {
+            tasks.push({ relPath: file.path, knownHash: null });
+        } else if (record && !options.verify && record.last_modified === file.mtime && record.size === file.size) {
+            skippedFiles++;
+        } else {
+            tasks.push({ relPath: file.path, knownHash: record?.content_hash ?? null });
+        }
+    }
+
+    // Runs on the main thread for each file as parser results arrive
+    const storeFile = (relPath: string, file: ParsedFile | null) => {
+        if (!file) {
+            skippedFiles++;
+            return;
+        }
+
+        // A touched but unchanged file only gets its new stat recorded
+        const fileRecord = getOrCreateFile(db, relPath, file.hash, file.language, file.lineCount, fileStats.get(relPath));
+        if ((!fileRecord.changed && !reparseAll) || !file.parsed) {
+            skippedFiles++;
+            return;
+        }
+
+        const parsed = settleGenerated(db, config, attributes, fileRecord.id, relPath, file.generated, file.parsed);
+        const stored = storeParsedFile(db, resolverCtx, fileRecord.id, relPath, parsed);
+        tables.exportMaps.set(relPath, buildExportMap(stored.exportCandidates));
+        tables.reexportMaps.set(relPath, stored.links.reexports);
+        fileLinks.set(relPath, stored.links);
+        totalSymbols += parsed.symbols.length;
+        totalEdges += stored.edges;
+        indexedFiles++;
+    };
+
+    // Files are written as they are parsed, in one transaction; the main thread is the only writer
+    db.exec('BEGIN');
+    try {
+        phaseStart = performance.now();
+        let done = 0;
+        await parseFiles(rootDir, tasks, workers, config.limits, (relPath, file) => {
+            const storeStart = performance.now();
+            storeFile(relPath, file);
+            phases.store += performance.now() - storeStart;
+            if (++done % PROGRESS_INTERVAL === 0 && done < tasks.length) {
+                progress?.({ phase: 'parse', done, total: tasks.length, elapsedMs: performance.now() - phaseStart });
+            }
+        });
+        phases.parse = performance.now() - phaseStart;
+        progress?.({ phase: 'parse', done: tasks.length, total: tasks.length, elapsedMs: phases.parse });
 
-    transaction();
+        phaseStart = performance.now();
+
+        // Unchanged files importing changed or removed ones, or whose unresolved imports may
+        // now resolve to new ones, are linked again. Found before stale files take their deps along.
+        const staleIds = [...known.values()].filter(f => !validPaths.has(f.path)).map(f => f.id);
+        const changedIds = [...fileLinks.values()].map(links => links.id);
+        const newPaths = [...fileLinks.keys()].filter(relPath => !known.has(relPath));
+        const relink = (relinkAll ? [...known.values()] : filesToRelink(db, [...changedIds, ...staleIds], newPaths))
+            .filter(file => validPaths.has(file.path) && !fileLinks.has(file.path));
+
+        // Remove stale files
+        removedFiles = removeStaleFiles(db, validPaths);
+
+        // Cross-file links are written once every file has a row, so forward imports resolve too
+        for (const links of fileLinks.values()) totalEdges += linkFile(db, links, tables);
+        totalEdges += relinkFiles(db, resolverCtx, relink, tables);
+        setMeta(db, 'parse_settings', parseSettings);
+        setMeta(db, 'resolver_inputs', resolverInputs);
+        // Package boundaries for the module map and package graph
+        setMeta(db, 'workspace', JSON.stringify(resolverCtx.workspace.map(({ name, dir, kind }) => ({ name, dir, kind }))));
+        db.exec('COMMIT');
+    } catch (err) {
+        if (db.inTransaction) db.exec('ROLLBACK');
+        db.close();
+        throw err;
+    }
+
+    // Nothing added, changed, removed or relinked: the graph and its rankings are already current
+    const graphChanged = indexedFiles > 0 || removedFiles > 0 || relinkAll;
+    if (graphChanged) linkDeclarations(db);
+    phases.resolve = performance.now() - phaseStart;
+    progress?.({ phase: 'resolve', done: files.length, total: files.length, elapsedMs: phases.resolve });
 
     // Compute PageRank
-    computePageRank(db);
+    phaseStart = performance.now();
+    if (graphChanged) computePageRank(db);
+    phases.rank = performance.now() - phaseStart;
+    progress?.({ phase: 'rank', done: files.length, total: files.length, elapsedMs: phases.rank });
 
     db.close();
 
@@ -190,80 +817,136 @@ export function indexProject(rootDir: string, options?: { verbose?: boolean }):
         symbols: totalSymbols,
         edges: totalEdges,
         timeMs: performance.now() - start,
+        workers,
+        phases,
     };
 }
 
+/**
+ * Resolve every file's imports again if the resolver inputs (alias configs, package
+ * manifests, build files) changed since they were last resolved. Returns whether it did.
+ */
+function relinkForResolverInputs(db: Database.Database, rootDir: string, config: CodexConfig): boolean {
+    const filter = createFileFilter(rootDir, config);
+    const resolverInputs = hashResolverInputs(rootDir, relDir => filter.skipDir(relDir));
+    if (getMeta(db, 'resolver_inputs') === resolverInputs) return false;
+
+    const files = db.prepare('SELECT id, path FROM files').all() as FileRef[];
+    relinkFiles(db, loadResolverContext(rootDir, config), files, createExportTables(db));
+    linkDeclarations(db);
+    setMeta(db, 'resolver_inputs', resolverInputs);
+    return true;
+}
+
+/**
+ * Bring one file's index up to date after an edit. Cross-file edges are repaired both ways:
+ * the file's references are resolved through its imports, and files importing it (directly
+ * or through re-exports) are linked again, as are files whose unresolved imports may now
+ * resolve to a new file. Editing a resolver input such as tsconfig.json relinks every file. A caller holding the database open is long-lived, so rankings are
+ * refreshed on a debounce; otherwise they are recomputed before returning.
+ */
 export function reindexFile(rootDir: string, relPath: string, db?: Database.Database): void {
     const shouldClose = !db;
     if (!db) db = openDatabase(rootDir);
+    const conn = db;
 
     const fullPath = path.join(rootDir, relPath);
+    const config = loadConfig(rootDir);
+    const existing = conn.prepare('SELECT id FROM files WHERE path = ?').get(relPath) as { id: number } | undefined;
+
+    const changed = conn.transaction((): boolean => {
+        // Deleted, or left out by the project config: drop it as the collector would
+        let stat: fs.Stats | null = null;
+        try {
+            stat = fs.statSync(fullPath);
+        } catch {
+            // gone
+        }
+        if (!stat || !createFileFilter(rootDir, config).includes(relPath, stat.size)) {
+            if (!existing) return false;
+            const dependents = filesToRelink(conn, [existing.id], []).filter(f => f.id !== existing.id);
+            removeFile(conn, relPath);
+            relinkFiles(conn, loadResolverContext(rootDir, config), dependents, createExportTables(conn));
+            return true;
+        }
 
-    if (!fs.existsSync(fullPath)) {
-        removeFile(db, relPath);
-        if (shouldClose) db.close();
-        return;
-    }
-
-    let content: string;
-    try {
-        content = fs.readFileSync(fullPath, 'utf-8');
-    } catch {
-        if (shouldClose) db.close();
-        return;
-    }
-
-    const hash = hashFile(content);
-    const language = getLanguage(relPath);
-    const lineCount = content.split('\n').length;
-    const fileRecord = getOrCreateFile(db, relPath, hash, language, lineCount);
-
-    if (!fileRecord.changed) {
-        if (shouldClose) db.close();
-        return;
-    }
-
-    clearFileData(db, fileRecord.id);
-    const parsed = parseFile(relPath, content);
+        let content: string;
+        try {
+            content = fs.readFileSync(fullPath, 'utf-8');
+        } catch {
+            return false;
+        }
 
-    const symbolMap = new Map<string, number>();
-    for (const sym of parsed.symbols) {
-        const symId = insertSymbol(db, fileRecord.id, {
-            name: sym.name,
-            qualifiedName: sym.qualifiedName,
-            kind: sym.kind,
-            lineStart: sym.lineStart,
-            lineEnd: sym.lineEnd,
-            signature: sym.signature,
-            docstring: sym.docstring,
-            content: sym.content,
-            exported: sym.exported,
+        const fileRecord = getOrCreateFile(conn, relPath, hashFile(content), getLanguage(relPath), content.split('\n').length, {
+            mtime: Math.trunc(stat.mtimeMs), size: stat.size,
         });
-        symbolMap.set(sym.name, symId);
-        if (sym.qualifiedName) symbolMap.set(sym.qualifiedName, symId);
-    }
-
-    // Resolve imports
-    for (const imp of parsed.imports) {
-        const resolved = resolveImportPath(rootDir, relPath, imp.source);
-        if (resolved) {
-            const toFile = db.prepare('SELECT id FROM files WHERE path = ?').get(resolved) as { id: number } | undefined;
-            if (toFile) {
-                insertFileDep(db, fileRecord.id, toFile.id, 'import', imp.names.join(',') || '*');
-            }
+        if (!fileRecord.changed) return false;
+
+        const resolverCtx = loadResolverContext(rootDir, config);
+        const tables = createExportTables(conn);
+        const parsed = settleGenerated(
+            conn, config, loadGeneratedAttributes(rootDir), fileRecord.id, relPath,
+            detectGenerated(relPath, content), parseFile(relPath, content, config.limits)
+        );
+        const { links } = storeParsedFile(conn, resolverCtx, fileRecord.id, relPath, parsed);
+        tables.reexportMaps.set(relPath, links.reexports);
+
+        const relink = filesToRelink(conn, [fileRecord.id], existing ? [] : [relPath]).filter(f => f.id !== fileRecord.id);
+        linkFile(conn, links, tables);
+        relinkFiles(conn, resolverCtx, relink, tables);
+
+        if (parsed.language === 'c' || parsed.language === 'cpp') {
+            linkDeclarations(conn, fileRecord.id);
         }
-    }
-
-    // Intra-file call edges
-    for (const call of parsed.calls) {
-        const callerId = symbolMap.get(call.callerSymbol);
-        const calledId = symbolMap.get(call.calledName);
-        if (callerId && calledId && callerId !== calledId) {
-            insertEdge(db, callerId, calledId, 'calls');
+        return true;
+    })();
+    // An edited tsconfig, package.json, go.mod, ... may send any file's imports elsewhere
+    const relinked = isResolverInput(relPath) && conn.transaction(() => relinkForResolverInputs(conn, rootDir, config))();
+
+    if (changed || relinked) {
+        if (shouldClose) {
+            computePageRank(conn);
+        } else {
+            scheduleRankRefresh(conn);
         }
     }
+    if (shouldClose) conn.close();
+}
 
-    if (shouldClose) db.close();
+// Edits tend to come in bursts; long-lived processes recompute rankings once they settle
+const RANK_REFRESH_DELAY = 2000;
+const rankTimers = new WeakMap<Database.Database, NodeJS.Timeout>();
+
+function scheduleRankRefresh(db: Database.Database): void {
+    clearTimeout(rankTimers.get(db));
+    const timer = setTimeout(() => {
+        rankTimers.delete(db);
+        if (db.open) computePageRank(db);
+    }, RANK_REFRESH_DELAY);
+    // Never keeps the process alive on its own
+    timer.unref();
+    rankTimers.set(db, timer);
+}
+
+/**
+ * Link C/C++ prototypes to their definitions with `declares` edges. A definition matches
+ * when it has the same (qualified) name and lives in the declaring file or a file that
+ * includes it.
+ */
+function linkDeclarations(db: Database.Database, fileId?: number): void {
+    db.prepare(`
+        INSERT OR IGNORE INTO edges (from_id, to_id, kind)
+        SELECT d.id, i.id, 'declares'
+        FROM symbols d
+        JOIN symbols i ON i.name = d.name
+            AND COALESCE(i.qualified_name, i.name) = COALESCE(d.qualified_name, d.name)
+        WHERE d.kind = 'declaration'
+          AND i.kind IN ('function', 'method')
+          AND (i.file_id = d.file_id OR EXISTS (
+              SELECT 1 FROM file_deps fd WHERE fd.from_file = i.file_id AND fd.to_file = d.file_id
+          ))
+          AND (? IS NULL OR d.file_id = ? OR i.file_id = ?)
+    `).run(fileId ?? null, fileId ?? null, fileId ?? null);
 }
 
 function computePageRank(db: Database.Database, iterations: number = 20, damping: number = 0.85): void {
@@ -303,19 +986,17 @@ function computePageRank(db: Database.Database, iterations: number = 20, damping
     let newRank = new Float64Array(n);
 
     for (let iter = 0; iter < iterations; iter++) {
-        newRank.fill((1 - damping) / n);
+        // Dangling nodes' rank is spread over every node, so add it once rather than per node
+        let dangling = 0;
         for (let i = 0; i < n; i++) {
-            if (outDegree[i] > 0) {
-                const share = rank[i] / outDegree[i];
-                for (const j of outgoing[i]) {
-                    newRank[j] += damping * share;
-                }
-            } else {
-                // Distribute dangling node's rank
-                const share = rank[i] / n;
-                for (let j = 0; j < n; j++) {
-                    newRank[j] += damping * share;
-                }
+            if (outDegree[i] === 0) dangling += rank[i];
+        }
+        newRank.fill((1 - damping) / n + damping * dangling / n);
+        for (let i = 0; i < n; i++) {
+            if (outDegree[i] === 0) continue;
+            const share = rank[i] / outDegree[i];
+            for (const j of outgoing[i]) {
+                newRank[j] += damping * share;
             }
         }
         [rank, newRank] = [newRank, rank];
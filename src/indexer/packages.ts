@@ -0,0 +1,150 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { readGoRequires } from './resolver';
+
+export interface DeclaredPackage {
+    name: string;
+    version: string;        // as declared, e.g. '^4.17.21', '>=2.0', 'v1.9.0'
+    manifest: string;       // relative to the project root
+    dev: boolean;           // devDependencies, dev-dependencies, optional or test groups
+}
+
+// Distribution and crate names are matched to import names loosely: `PyYAML`, `serde-json`
+export function normalizePackageName(name: string): string {
+    return name.toLowerCase().replace(/[-.]/g, '_');
+}
+
+function readText(file: string): string | null {
+    try {
+        return fs.readFileSync(file, 'utf-8');
+    } catch {
+        return null;
+    }
+}
+
+function readPackageJson(content: string, manifest: string, out: DeclaredPackage[]): void {
+    let pkg: any;
+    try {
+        pkg = JSON.parse(content);
+    } catch {
+        return;
+    }
+    const groups = ['dependencies', 'peerDependencies', 'optionalDependencies', 'devDependencies'];
+    for (const group of groups) {
+        for (const [name, version] of Object.entries(pkg?.[group] ?? {})) {
+            if (typeof version === 'string') out.push({ name, version, manifest, dev: group === 'devDependencies' });
+        }
+    }
+}
+
+/**
+ * `[section]` headers and the `key = value` lines under them. Values stay raw; multi-line
+ * arrays are joined onto their key's line.
+ */
+export function readTomlEntries(content: string): { section: string; key: string; value: string }[] {
+    const entries: { section: string; key: string; value: string }[] = [];
+    let section = '';
+    let open: { section: string; key: string; value: string } | null = null;
+    for (const rawLine of content.split('\n')) {
+        const line = rawLine.replace(/\s+#.*$/, '').trim();
+        if (open) {
+            open.value += ' ' + line;
+            if (line.endsWith(']')) open = null;
+            continue;
+        }
+        if (!line || line.startsWith('#')) continue;
+        const header = line.match(/^\[+([^\]]+)\]+$/);
+        if (header) {
+            section = header[1].trim();
+            continue;
+        }
+        const entry = line.match(/^("?[\w.-]+"?)\s*=\s*(.*)$/);
+        if (!entry) continue;
+        const parsed = { section, key: entry[1].replace(/"/g, ''), value: entry[2] };
+        entries.push(parsed);
+        if (parsed.value.startsWith('[') && !parsed.value.endsWith(']')) open = parsed;
+    }
+    return entries;
+}
+
+// `"1.0"` or `{ version = "1.0", features = [...] }`
+function tomlVersion(value: string): string {
+    const match = value.match(/^"([^"]*)"/) || value.match(/version\s*=\s*"([^"]*)"/);
+    return match ? match[1] : '*';
+}
+
+// PEP 508: `requests[socks]>=2.0; python_version < "3.8"`
+function readRequirement(spec: string, manifest: string, dev: boolean): DeclaredPackage | null {
+    const match = spec.match(/^\s*([A-Za-z0-9][\w.-]*)\s*(?:\[[^\]]*\])?\s*([^;]*)/);
+    return match ? { name: match[1], version: match[2].trim() || '*', manifest, dev } : null;
+}
+
+function readPyproject(content: string, manifest: string, out: DeclaredPackage[]): void {
+    for (const { section, key, value } of readTomlEntries(content)) {
+        const list = value.startsWith('[') ? [...value.matchAll(/["']([^"']+)["']/g)].map(m => m[1]) : [];
+        if (section === 'project' && key === 'dependencies') {
+            for (const spec of list) {
+                const pkg = readRequirement(spec, manifest, false);
+                if (pkg) out.push(pkg);
+            }
+        } else if (section === 'project.optional-dependencies' || section === 'dependency-groups') {
+            for (const spec of list) {
+                const pkg = readRequirement(spec, manifest, true);
+                if (pkg) out.push(pkg);
+            }
+        } else if (/^tool\.poetry\.(?:dev-)?(?:group\.[\w-]+\.)?dependencies$/.test(section) && key !== 'python') {
+            out.push({ name: key, version: tomlVersion(value), manifest, dev: section !== 'tool.poetry.dependencies' });
+        }
+    }
+}
+
+function readCargoToml(content: string, manifest: string, out: DeclaredPackage[]): void {
+    const entries = readTomlEntries(content);
+    for (const { section, key, value } of entries) {
+        const group = section.match(/^(?:workspace\.|target\..+\.)?((?:dev-|build-)?dependencies)(?:\.(.+))?$/);
+        if (!group) continue;
+        const dev = group[1] !== 'dependencies';
+        if (group[2]) {
+            // `[dependencies.serde]` with `version = "1.0"` below
+            if (key === 'version') out.push({ name: group[2], version: tomlVersion(value), manifest, dev });
+        } else {
+            // `serde.workspace = true`, `serde.version = "1.0"`
+            const [name, field] = key.split('.');
+            if (!field) out.push({ name, version: tomlVersion(value), manifest, dev });
+            else if (field === 'workspace') out.push({ name, version: 'workspace', manifest, dev });
+            else if (field === 'version') out.push({ name, version: tomlVersion(value), manifest, dev });
+        }
+    }
+}
+
+const MANIFEST_READERS: [string, (content: string, manifest: string, out: DeclaredPackage[]) => void][] = [
+    ['package.json', readPackageJson],
+    ['pyproject.toml', readPyproject],
+    ['Cargo.toml', readCargoToml],
+    ['go.mod', (content, manifest, out) => {
+        for (const req of readGoRequires(content)) out.push({ name: req.path, version: req.version, manifest, dev: false });
+    }],
+];
+
+/**
+ * Packages declared in package.json, pyproject.toml (PEP 621 and Poetry), Cargo.toml and
+ * go.mod at the project root and in `dirs` (relative to it), keyed by normalized name. The
+ * root's declarations come first; a runtime declaration wins over a dev one.
+ */
+export function readDeclaredPackages(rootDir: string, dirs: string[] = []): Map<string, DeclaredPackage> {
+    const declared: DeclaredPackage[] = [];
+    for (const dir of new Set(['', ...dirs])) {
+        for (const [name, read] of MANIFEST_READERS) {
+            const manifest = path.join(dir, name);
+            const content = readText(path.join(rootDir, manifest));
+            if (content !== null) read(content, manifest, declared);
+        }
+    }
+
+    const packages = new Map<string, DeclaredPackage>();
+    for (const pkg of declared) {
+        const key = normalizePackageName(pkg.name);
+        if (!packages.has(key) || packages.get(key)!.dev) packages.set(key, pkg);
+    }
+    return packages;
+}
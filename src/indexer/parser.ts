@@ -1,5 +1,8 @@
 import * as crypto from 'crypto';
 import * as path from 'path';
+import { parseDocstring, StructuredDoc } from './docstring';
+import { parseSignature, SignatureInfo } from './signature';
+import { ContentLimits, DEFAULT_CONFIG } from '../config';
 
 // Tree-sitter imports — loaded lazily
 let Parser: any;
@@ -79,71 +82,144 @@ export interface ExtractedSymbol {
     lineStart: number;
     lineEnd: number;
     signature?: string;
+    signatureInfo?: SignatureInfo;  // functions and methods
     docstring?: string;
+    doc?: StructuredDoc;
     content?: string;
+    contentHash?: string;           // of the symbol's full source lines, whatever `content` keeps
     exported?: boolean;
 }
 
+export interface ImportBinding {
+    local: string;      // name visible in the importing file
+    imported: string;   // exported name in the source module, 'default' or '*' (namespace)
+    line?: number;      // position of the imported name, when it names a symbol
+    column?: number;
+}
+
 export interface ExtractedImport {
     source: string;
     names: string[];
     isDefault: boolean;
+    bindings: ImportBinding[];
+    reexport?: boolean; // `export ... from`: each binding's `local` is a name this file exports
+    dynamic?: boolean;  // `import('./x')`, loaded lazily
+    line?: number;      // of the import statement
 }
 
 export interface ExtractedCall {
     callerSymbol: string;
     calledName: string;
     line: number;
+    column: number;     // 1-based, at the called name
+}
+
+export interface ExtractedRelation {
+    fromSymbol: string;
+    targetName: string;
+    kind: string;       // edge kind, e.g. 'implements'
+    line: number;
+    column: number;     // 1-based, at the target name
 }
 
 export interface ParseResult {
     symbols: ExtractedSymbol[];
     imports: ExtractedImport[];
     calls: ExtractedCall[];
+    relations: ExtractedRelation[];
     language: string | null;
 }
 
+// C++ headers commonly use .h; these constructs never appear in C
+const CPP_HEADER_HINTS = /^\s*(namespace\s+\w+|class\s+\w+|template\s*<|public:|private:|protected:)/m;
+
+// `module.exports`, `module.exports.foo`, `exports.foo`
+const COMMONJS_EXPORT = /^(?:module\.exports|(?:module\.)?exports\.([A-Za-z_$][\w$]*))$/;
+
+// Nodes that open a new scope for local variable types
+const FUNCTION_SCOPES = new Set([
+    'function_declaration', 'function_expression', 'function', 'arrow_function', 'method_definition',
+    'generator_function_declaration', 'function_definition', 'lambda', 'function_item', 'closure_expression',
+]);
+
 const SKIP_CALLS = new Set(['console.log', 'console.error', 'console.warn', 'console.info', 'console.debug', 'print', 'require']);
 
-export function parseFile(filePath: string, content: string): ParseResult {
+export function parseFile(filePath: string, content: string, limits: ContentLimits = DEFAULT_CONFIG.limits): ParseResult {
     const language = getLanguage(filePath);
-    if (!language) return { symbols: [], imports: [], calls: [], language: null };
+    const empty = { symbols: [], imports: [], calls: [], relations: [] };
+    if (!language) return { ...empty, language: null };
 
     // Skip parsing for JSON/CSS/HTML — no meaningful symbols
     if (['json', 'css', 'html'].includes(language)) {
-        return { symbols: [], imports: [], calls: [], language };
+        return { ...empty, language };
     }
 
-    const parser = getParser(language);
-    if (!parser) return { symbols: [], imports: [], calls: [], language };
+    const grammar = language === 'c' && filePath.endsWith('.h') && CPP_HEADER_HINTS.test(content) ? 'cpp' : language;
+    const parser = getParser(grammar);
+    if (!parser) return { ...empty, language };
 
     let tree: any;
     try {
         tree = parser.parse(content);
     } catch {
-        return { symbols: [], imports: [], calls: [], language };
+        return { ...empty, language };
     }
 
     const lines = content.split('\n');
     const symbols: ExtractedSymbol[] = [];
     const imports: ExtractedImport[] = [];
     const calls: ExtractedCall[] = [];
+    const relations: ExtractedRelation[] = [];
+    const localExports: { node: any; bindings: ImportBinding[] }[] = [];
+    const commonJsExports = new Set<string>();
+    const fieldTypes = new Map<string, string>();                 // `Class.field` → declared/constructed type
+    const scopeTypes = new Map<number, Map<string, string>>();    // function node id → local variable types
 
     function getDocstring(node: any): string | undefined {
-        const prev = node.previousNamedSibling;
+        // Python: a string literal as the first statement of the body
+        if (node.type === 'function_definition' || node.type === 'class_definition') {
+            const first = node.childForFieldName('body')?.firstNamedChild;
+            if (first?.type === 'expression_statement' && first.firstNamedChild?.type === 'string') {
+                return first.firstNamedChild.text;
+            }
+        }
+        // A doc comment sits above `export`, not the declaration inside it
+        let prev = node.parent?.type === 'export_statement' ? node.parent.previousNamedSibling : node.previousNamedSibling;
         if (prev && prev.type === 'comment') {
-            return prev.text.slice(0, 500);
+            return prev.text;
+        }
+        // Rust: `///` doc lines are separate line_comment nodes, possibly above attributes
+        while (prev && prev.type === 'attribute_item') prev = prev.previousNamedSibling;
+        const docLines: string[] = [];
+        while (prev && (prev.type === 'line_comment' || prev.type === 'block_comment')) {
+            docLines.unshift(prev.text.trim());
+            prev = prev.previousNamedSibling;
         }
+        if (docLines.length > 0) return docLines.join('\n');
         return undefined;
     }
 
-    function getSignature(node: any): string {
-        const startRow = node.startPosition.row;
-        return lines[startRow]?.trim().slice(0, 200) || '';
+    // Declaration header up to the body, whitespace collapsed; bodiless declarations keep their first line
+    function getSignature(node: any, body: any = node.childForFieldName('body')): string {
+        const start = node.parent?.type === 'export_statement' ? node.parent : node;
+        if (!body || body.startIndex <= start.startIndex) {
+            return lines[start.startPosition.row]?.trim().slice(0, Math.min(200, limits.signature)) || '';
+        }
+        const header = start.text.slice(0, body.startIndex - start.startIndex);
+        return header.replace(/\s+/g, ' ').replace(/([(<[]) /g, '$1').replace(/,? ([)>\]])/g, '$1').trim().slice(0, limits.signature);
     }
 
+    // `maxLen` is the cap under the default content limit; a configured limit scales it
     function getContent(node: any, maxLen: number): string {
-        return node.text.slice(0, maxLen);
+        return node.text.slice(0, Math.round(maxLen * limits.content / DEFAULT_CONFIG.limits.content));
+    }
+
+    // 1-based position of the rightmost name in `a.b`, `a::b` or `p->f`, where a reference points
+    function namePosition(node: any): { line: number; column: number } {
+        const last = node.childForFieldName('property') || node.childForFieldName('attribute') ||
+            node.childForFieldName('field') || node.childForFieldName('name');
+        if (last) return namePosition(last);
+        return { line: node.startPosition.row + 1, column: node.startPosition.column + 1 };
     }
 
     function isExported(node: any): boolean {
@@ -156,7 +232,8 @@ export function parseFile(filePath: string, content: string): ParseResult {
         }
         // Python: top-level definitions without underscore prefix
         if (['python'].includes(language!)) {
-            if (parent.type === 'module') {
+            const container = parent.type === 'decorated_definition' ? parent.parent : parent;
+            if (container?.type === 'module') {
                 const nameNode = node.childForFieldName('name');
                 if (nameNode && !nameNode.text.startsWith('_')) return true;
             }
@@ -164,18 +241,92 @@ export function parseFile(filePath: string, content: string): ParseResult {
         return false;
     }
 
+    function findEnclosingClass(node: any): string | null {
+        let cur = node.parent;
+        while (cur) {
+            if (['class_declaration', 'abstract_class_declaration', 'class_definition', 'class'].includes(cur.type)) {
+                return cur.childForFieldName('name')?.text || null;
+            }
+            cur = cur.parent;
+        }
+        return null;
+    }
+
+    function isFunctionValue(value: any): boolean {
+        return !!value && ['arrow_function', 'function_expression', 'function'].includes(value.type);
+    }
+
+    // Name an object literal's members are qualified with: `const api = {...}` → 'api', nested
+    // `{ users: {...} }` → 'api.users', `module.exports = {...}` → '' (members are top-level
+    // exports), anything else (arguments, return values) → null
+    function objectOwner(obj: any): string | null {
+        const parent = obj?.parent;
+        if (parent?.type === 'variable_declarator') {
+            const nameNode = parent.childForFieldName('name');
+            return nameNode?.type === 'identifier' ? nameNode.text : null;
+        }
+        if (parent?.type === 'pair') {
+            const owner = objectOwner(parent.parent);
+            const key = parent.childForFieldName('key')?.text;
+            return owner !== null && key ? (owner ? `${owner}.${key}` : key) : null;
+        }
+        if (parent?.type === 'assignment_expression' && commonJsTarget(parent.childForFieldName('left')) === '') return '';
+        return null;
+    }
+
+    // `require('x')`, `require('x').y` and `await import('x')` declarations are imports, not symbols
+    function isModuleCall(value: any): boolean {
+        let cur = value;
+        if (cur?.type === 'await_expression') cur = cur.firstNamedChild;
+        if (cur?.type === 'member_expression') cur = cur.childForFieldName('object');
+        const funcNode = cur?.type === 'call_expression' ? cur.childForFieldName('function') : null;
+        return funcNode?.type === 'import' || (funcNode?.type === 'identifier' && funcNode.text === 'require');
+    }
+
     function findEnclosingSymbol(node: any): string | null {
         let cur = node.parent;
         while (cur) {
-            if (['function_declaration', 'function_definition', 'method_definition',
-                 'arrow_function', 'class_declaration', 'class_definition'].includes(cur.type)) {
+            if (['function_declaration', 'generator_function_declaration', 'function_definition', 'method_definition',
+                 'arrow_function', 'class_declaration', 'abstract_class_declaration', 'class_definition', 'class'].includes(cur.type)) {
                 const nameNode = cur.childForFieldName('name');
+                if (nameNode) {
+                    // Methods are stored under their qualified name, so qualify the caller too
+                    if (cur.type === 'method_definition' && cur.parent?.type === 'object') {
+                        const owner = objectOwner(cur.parent);
+                        if (owner !== null) return owner ? `${owner}.${nameNode.text}` : nameNode.text;
+                    } else if (cur.type === 'method_definition' || cur.type === 'function_definition') {
+                        const owner = findEnclosingClass(cur);
+                        if (owner) return `${owner}.${nameNode.text}`;
+                        return nameNode.text;
+                    } else {
+                        return nameNode.text;
+                    }
+                }
+            }
+            // Arrow-function class fields: `handle = () => {}`
+            if ((cur.type === 'public_field_definition' || cur.type === 'field_definition') &&
+                isFunctionValue(cur.childForFieldName('value'))) {
+                const nameNode = cur.childForFieldName('name') || cur.childForFieldName('property');
+                const owner = findEnclosingClass(cur);
+                if (nameNode && owner) return `${owner}.${nameNode.text}`;
+            }
+            // CommonJS: `exports.foo = function () {}`, `module.exports = { foo: () => {} }`
+            if (cur.type === 'assignment_expression') {
+                const target = commonJsTarget(cur.childForFieldName('left'));
+                if (target) return target;
+                const nameNode = target === '' ? cur.childForFieldName('right')?.childForFieldName('name') : null;
                 if (nameNode) return nameNode.text;
             }
-            // Handle variable declarations with arrow functions
-            if (cur.type === 'variable_declarator' || cur.type === 'lexical_declaration') {
-                const nameNode = cur.childForFieldName('name') ||
-                    (cur.type === 'lexical_declaration' ? cur.firstNamedChild?.childForFieldName('name') : null);
+            // `const api = { load: () => {} }`; every property of a `module.exports` object is a symbol
+            if (cur.type === 'pair') {
+                const owner = objectOwner(cur.parent);
+                const key = cur.childForFieldName('key')?.text;
+                if (key && owner === '') return key;
+                if (key && owner && isFunctionValue(cur.childForFieldName('value'))) return `${owner}.${key}`;
+            }
+            // Module-level variable declarations (arrow functions, initializers); locals belong to their function
+            if (cur.type === 'variable_declarator' && ['program', 'export_statement'].includes(cur.parent?.parent?.type)) {
+                const nameNode = cur.childForFieldName('name');
                 if (nameNode) return nameNode.text;
             }
             cur = cur.parent;
@@ -183,11 +334,287 @@ export function parseFile(filePath: string, content: string): ParseResult {
         return null;
     }
 
+    // `Base<T>` → Base, `ns.Base` stays qualified so it can resolve through a namespace import
+    function heritageName(node: any): string | null {
+        switch (node.type) {
+            case 'identifier':
+            case 'type_identifier':
+            case 'nested_type_identifier':
+            case 'member_expression':
+            case 'attribute':
+            case 'qualified_identifier':
+                return node.text;
+            case 'generic_type':
+            case 'template_type':
+                return node.childForFieldName('name')?.text || null;
+            default:
+                return null;
+        }
+    }
+
+    function addHeritage(fromSymbol: string, targetNode: any, kind: string) {
+        const targetName = heritageName(targetNode);
+        if (targetName && targetName !== 'object') {
+            relations.push({ fromSymbol, targetName, kind, ...namePosition(targetNode) });
+        }
+    }
+
+    // --- Receivers: `this.x()`, `self.x()`, `super.x()`, `repo.x()` on a typed local ---
+
+    function baseClass(className: string): string | null {
+        return relations.find(r => r.kind === 'extends' && r.fromSymbol === className)?.targetName || null;
+    }
+
+    // `: Foo`, `: Foo<T>`, `: ns.Foo` (Python `type` nodes too); unions and the like have no single class
+    function annotatedType(typeNode: any): string | null {
+        if (!typeNode) return null;
+        if (typeNode.type === 'type_annotation' || typeNode.type === 'type') return annotatedType(typeNode.firstNamedChild);
+        return heritageName(typeNode);
+    }
+
+    // `new Foo()`; Python has no `new`, so a call to a capitalized name is taken as a constructor
+    function constructedType(value: any): string | null {
+        if (value?.type === 'new_expression') return heritageName(value.childForFieldName('constructor'));
+        if (value?.type === 'call' && language === 'python') {
+            const name = heritageName(value.childForFieldName('function'));
+            const last = name?.slice(name.lastIndexOf('.') + 1);
+            return last && /^[A-Z]/.test(last) ? name : null;
+        }
+        return null;
+    }
+
+    // Declared field types of a class, read before its methods are walked
+    function collectFieldTypes(classNode: any, className: string) {
+        for (const member of classNode.childForFieldName('body')?.namedChildren || []) {
+            const field = member.type === 'expression_statement' ? member.firstNamedChild : member;
+            if (['public_field_definition', 'field_definition', 'assignment'].includes(field?.type)) {
+                const nameNode = field.childForFieldName('name') || field.childForFieldName('property') || field.childForFieldName('left');
+                const typeName = annotatedType(field.childForFieldName('type')) ||
+                    constructedType(field.childForFieldName('value') || field.childForFieldName('right'));
+                if (nameNode && typeName) fieldTypes.set(`${className}.${nameNode.text}`, typeName);
+            } else if (field?.type === 'method_definition' && field.childForFieldName('name')?.text === 'constructor') {
+                for (const param of field.childForFieldName('parameters')?.namedChildren || []) {
+                    const nameNode = param.childForFieldName('pattern');
+                    const typeName = annotatedType(param.childForFieldName('type'));
+                    if (nameNode?.type === 'identifier' && typeName) fieldTypes.set(`${className}.${nameNode.text}`, typeName);
+                }
+            }
+        }
+    }
+
+    // Types of a function's typed parameters and of locals declared with a type or `new`
+    function localTypes(scope: any): Map<string, string> {
+        let types = scopeTypes.get(scope.id);
+        if (types) return types;
+        types = new Map();
+        scopeTypes.set(scope.id, types);
+
+        for (const param of scope.childForFieldName('parameters')?.namedChildren || []) {
+            const nameNode = param.childForFieldName('pattern') || param.childForFieldName('name') ||
+                (param.type === 'typed_parameter' ? param.firstNamedChild : null);
+            const typeNode = param.childForFieldName('type');
+            const typeName = language === 'rust' ? rustLocalType(typeNode) : annotatedType(typeNode);
+            if (nameNode?.type === 'identifier' && typeName) types.set(nameNode.text, typeName);
+        }
+
+        const visit = (node: any) => {
+            if (node !== scope && FUNCTION_SCOPES.has(node.type)) return;
+            if (node.type === 'variable_declarator' || (node.type === 'assignment' && language === 'python')) {
+                const nameNode = node.childForFieldName('name') || node.childForFieldName('left');
+                const typeName = annotatedType(node.childForFieldName('type')) ||
+                    constructedType(node.childForFieldName('value') || node.childForFieldName('right'));
+                if (nameNode?.type === 'identifier' && typeName && !types!.has(nameNode.text)) {
+                    types!.set(nameNode.text, typeName);
+                }
+            } else if (node.type === 'let_declaration') {
+                const nameNode = node.childForFieldName('pattern');
+                const typeName = rustLocalType(node.childForFieldName('type')) ||
+                    rustConstructedType(node.childForFieldName('value'));
+                if (nameNode?.type === 'identifier' && typeName && !types!.has(nameNode.text)) {
+                    types!.set(nameNode.text, typeName);
+                }
+            }
+            for (const child of node.namedChildren) visit(child);
+        };
+        visit(scope);
+        return types;
+    }
+
+    // Class (or named object literal, or Rust impl/trait) that `this`/`self` refers to
+    function receiverOwner(node: any): string | null {
+        for (let cur = node.parent; cur; cur = cur.parent) {
+            if (['class_declaration', 'abstract_class_declaration', 'class_definition', 'class'].includes(cur.type)) {
+                return cur.childForFieldName('name')?.text || null;
+            }
+            if (cur.type === 'impl_item') return rustTypeName(cur.childForFieldName('type'));
+            if (cur.type === 'trait_item') return cur.childForFieldName('name')?.text || null;
+            if (cur.type === 'object') {
+                const owner = objectOwner(cur);
+                if (owner !== null) return owner;
+            }
+        }
+        return null;
+    }
+
+    function isSelf(node: any): boolean {
+        if (node.type === 'this' || (language === 'rust' && node.type === 'self')) return true;
+        return language === 'python' && node.type === 'identifier' && (node.text === 'self' || node.text === 'cls');
+    }
+
+    /**
+     * Type a member call's receiver resolves to, so `this.save()` is recorded as `Repo.save`.
+     * Returns '' for members of a `module.exports` object (top-level names) and null when unknown.
+     */
+    function receiverType(obj: any): string | null {
+        if (isSelf(obj)) return receiverOwner(obj);
+        if (obj.type === 'super' || (obj.type === 'call' && obj.childForFieldName('function')?.text === 'super')) {
+            const owner = findEnclosingClass(obj);
+            return owner ? baseClass(owner) : null;
+        }
+        if (obj.type === 'identifier') {
+            for (let cur = obj.parent; cur; cur = cur.parent) {
+                if (!FUNCTION_SCOPES.has(cur.type) && cur.parent) continue;
+                const typeName = localTypes(cur).get(obj.text);
+                if (typeName) return typeName;
+            }
+            return null;
+        }
+        // `this.repo.save()` on a field with a known type
+        const inner = obj.childForFieldName('object');
+        const member = obj.childForFieldName('property') || obj.childForFieldName('attribute');
+        if (inner && member && isSelf(inner)) {
+            const owner = receiverOwner(inner);
+            return owner ? fieldTypes.get(`${owner}.${member.text}`) || null : null;
+        }
+        return null;
+    }
+
+    // `this.save()` on a class that inherits `save` calls the nearest base class's method
+    function resolveInheritedCalls() {
+        const members = new Set(symbols.map(s => s.qualifiedName).filter(Boolean));
+        const classes = new Set(symbols.filter(s => s.kind === 'class').map(s => s.name));
+        for (const call of calls) {
+            const dot = call.calledName.lastIndexOf('.');
+            if (dot === -1) continue;
+            let owner = call.calledName.slice(0, dot);
+            const member = call.calledName.slice(dot + 1);
+            const seen = new Set<string>();
+            while (classes.has(owner) && !members.has(`${owner}.${member}`) && !seen.has(owner)) {
+                seen.add(owner);
+                const base = baseClass(owner);
+                if (!base) break;
+                owner = base;
+            }
+            call.calledName = `${owner}.${member}`;
+        }
+    }
+
+    // extends/implements clauses (TS/JS), interface extends (TS), base classes (Python, C++)
+    function extractHeritage(node: any, name: string) {
+        const superclasses = node.type === 'class_definition' ? node.childForFieldName('superclasses') : null;
+        if (superclasses) {
+            for (const t of superclasses.namedChildren) addHeritage(name, t, 'extends');
+        }
+        for (const child of node.namedChildren) {
+            if (child.type === 'class_heritage') {
+                for (const clause of child.namedChildren) {
+                    if (clause.type === 'extends_clause') {
+                        const value = clause.childForFieldName('value');
+                        if (value) addHeritage(name, value, 'extends');
+                    } else if (clause.type === 'implements_clause') {
+                        for (const t of clause.namedChildren) addHeritage(name, t, 'implements');
+                    } else {
+                        // JavaScript: `class A extends B` has the expression directly under class_heritage
+                        addHeritage(name, clause, 'extends');
+                    }
+                }
+            } else if (child.type === 'extends_type_clause') {
+                for (const t of child.namedChildren) addHeritage(name, t, 'extends');
+            } else if (child.type === 'base_class_clause') {
+                for (const t of child.namedChildren) addHeritage(name, t, 'extends');
+            }
+        }
+    }
+
+    // Named type references; qualified forms stay whole so they resolve through an import
+    const TYPE_NAME_NODES = new Set(['type_identifier', 'nested_type_identifier', 'scoped_type_identifier', 'qualified_type']);
+    // Code hanging off a type position (default values, inline callbacks) is not a type use
+    const TYPE_STOP_NODES = new Set(['statement_block', 'block', 'compound_statement', 'arrow_function', 'function_expression', 'lambda']);
+
+    // Generic parameters declared by the symbol itself (`<T>`, `[T any]`) are not dependencies
+    function typeParamNames(node: any): Set<string> {
+        const names = new Set<string>();
+        const params = node.childForFieldName('type_parameters');
+        for (const param of params?.namedChildren || []) {
+            for (const nameNode of param.childrenForFieldName('name')) names.add(nameNode.text);
+        }
+        return names;
+    }
+
+    // Type parameters, parameters and return type of a function-like node (TS, Python, Rust, Go)
+    function signatureTypeNodes(node: any): any[] {
+        return ['type_parameters', 'parameters', 'return_type', 'result'].map(f => node.childForFieldName(f));
+    }
+
+    /**
+     * Record `uses_type` relations from `fromSymbol` to the named types under `nodes`.
+     * Python annotations are ordinary expressions, so only names inside `type` nodes count.
+     */
+    function extractTypeUses(fromSymbol: string, nodes: any[], typeParams: Set<string> = new Set()) {
+        const add = (targetName: string, node: any) => {
+            if (typeParams.has(targetName) || targetName === 'Self') return;
+            relations.push({ fromSymbol, targetName, kind: 'uses_type', ...namePosition(node) });
+        };
+        const visit = (node: any, inAnnotation: boolean) => {
+            if (TYPE_STOP_NODES.has(node.type)) return;
+            if (language === 'python') {
+                if (node.type === 'type') {
+                    inAnnotation = true;
+                } else if (inAnnotation && (node.type === 'identifier' || node.type === 'attribute')) {
+                    add(node.text, node);
+                    return;
+                } else if (inAnnotation && node.type === 'string') {
+                    // Forward reference: `def f(x: "Foo")`
+                    const name = node.text.replace(/^['"]+|['"]+$/g, '');
+                    if (/^[A-Za-z_][\w.]*$/.test(name)) add(name, node);
+                    return;
+                }
+            } else if (TYPE_NAME_NODES.has(node.type)) {
+                add(node.text, node);
+                return;
+            }
+            for (const child of node.namedChildren) visit(child, inAnnotation);
+        };
+        for (const node of nodes) {
+            if (node) visit(node, false);
+        }
+    }
+
+    // TypeScript parameter properties: `constructor(private repo: Repo, readonly id: string)`
+    function extractParameterProperties(ctor: any, className: string) {
+        for (const param of ctor.childForFieldName('parameters')?.namedChildren || []) {
+            if (!param.children.some((c: any) => c.type === 'accessibility_modifier' || c.type === 'readonly')) continue;
+            const nameNode = param.childForFieldName('pattern');
+            if (nameNode?.type !== 'identifier') continue;
+            symbols.push({
+                name: nameNode.text,
+                qualifiedName: `${className}.${nameNode.text}`,
+                kind: 'property',
+                lineStart: param.startPosition.row + 1,
+                lineEnd: param.endPosition.row + 1,
+                signature: param.text.split('\n')[0].trim(),
+                content: getContent(param, 1024),
+                exported: false,
+            });
+            extractTypeUses(className, [param.childForFieldName('type')]);
+        }
+    }
+
     function walkNode(node: any, className?: string) {
         const type = node.type;
 
         // Symbols
-        if (['function_declaration', 'function_definition'].includes(type)) {
+        if (['function_declaration', 'generator_function_declaration', 'function_definition'].includes(type)) {
             const nameNode = node.childForFieldName('name');
             if (nameNode) {
                 symbols.push({
@@ -197,27 +624,76 @@ export function parseFile(filePath: string, content: string): ParseResult {
                     lineStart: node.startPosition.row + 1,
                     lineEnd: node.endPosition.row + 1,
                     signature: getSignature(node),
+                    signatureInfo: parseSignature(node),
                     docstring: getDocstring(node),
                     content: getContent(node, 2048),
                     exported: isExported(node),
                 });
+                extractTypeUses(className ? `${className}.${nameNode.text}` : nameNode.text, signatureTypeNodes(node), typeParamNames(node));
             }
         } else if (type === 'method_definition') {
             const nameNode = node.childForFieldName('name');
-            if (nameNode) {
+            // Object literal methods belong to the object's name; ones in anonymous objects are skipped
+            const inObject = node.parent?.type === 'object';
+            const owner = inObject ? objectOwner(node.parent) : className;
+            if (nameNode && owner !== null) {
+                const accessor = node.children.some((c: any) => c.type === 'get' || c.type === 'set');
                 symbols.push({
                     name: nameNode.text,
-                    qualifiedName: className ? `${className}.${nameNode.text}` : undefined,
-                    kind: 'method',
+                    qualifiedName: owner ? `${owner}.${nameNode.text}` : undefined,
+                    kind: accessor ? 'accessor' : 'method',
                     lineStart: node.startPosition.row + 1,
                     lineEnd: node.endPosition.row + 1,
                     signature: getSignature(node),
+                    signatureInfo: parseSignature(node),
                     docstring: getDocstring(node),
                     content: getContent(node, 2048),
                     exported: isExported(node),
                 });
+                extractTypeUses(owner ? `${owner}.${nameNode.text}` : nameNode.text, signatureTypeNodes(node), typeParamNames(node));
+                if (nameNode.text === 'constructor' && className) extractParameterProperties(node, className);
+            }
+        } else if ((type === 'public_field_definition' || type === 'field_definition') && className) {
+            const nameNode = node.childForFieldName('name') || node.childForFieldName('property');
+            const value = node.childForFieldName('value');
+            if (nameNode) {
+                // Arrow-function fields are called like methods; their annotations count toward the class
+                const isMethod = isFunctionValue(value);
+                symbols.push({
+                    name: nameNode.text,
+                    qualifiedName: `${className}.${nameNode.text}`,
+                    kind: isMethod ? 'method' : 'field',
+                    lineStart: node.startPosition.row + 1,
+                    lineEnd: node.endPosition.row + 1,
+                    signature: getSignature(node, isMethod ? value.childForFieldName('body') : null),
+                    signatureInfo: isMethod ? parseSignature(value) : undefined,
+                    docstring: getDocstring(node),
+                    content: getContent(node, isMethod ? 2048 : 1024),
+                    exported: false,
+                });
+                if (isMethod) extractTypeUses(`${className}.${nameNode.text}`, signatureTypeNodes(value), typeParamNames(value));
             }
-        } else if (['class_declaration', 'class_definition'].includes(type)) {
+        } else if (type === 'pair' && isFunctionValue(node.childForFieldName('value'))) {
+            // `const api = { load: () => {} }`; `module.exports` properties are handled as CommonJS exports
+            const owner = objectOwner(node.parent);
+            const key = node.childForFieldName('key');
+            const value = node.childForFieldName('value');
+            if (owner && key) {
+                symbols.push({
+                    name: key.text,
+                    qualifiedName: `${owner}.${key.text}`,
+                    kind: 'method',
+                    lineStart: node.startPosition.row + 1,
+                    lineEnd: node.endPosition.row + 1,
+                    signature: getSignature(node, value.childForFieldName('body')),
+                    signatureInfo: parseSignature(value),
+                    docstring: getDocstring(node),
+                    content: getContent(node, 2048),
+                    exported: false,
+                });
+                extractTypeUses(`${owner}.${key.text}`, signatureTypeNodes(value), typeParamNames(value));
+            }
+        } else if (['class_declaration', 'abstract_class_declaration', 'class_definition', 'class'].includes(type)) {
             const nameNode = node.childForFieldName('name');
             if (nameNode) {
                 const name = nameNode.text;
@@ -231,6 +707,14 @@ export function parseFile(filePath: string, content: string): ParseResult {
                     content: getContent(node, 3072),
                     exported: isExported(node),
                 });
+                extractHeritage(node, name);
+                // Field annotations (`x: Foo;` in TS, `x: Foo = ...` in a Python class body)
+                const fieldTypes = (node.childForFieldName('body')?.namedChildren || [])
+                    .map((member: any) => member.type === 'expression_statement' ? member.firstNamedChild : member)
+                    .filter((member: any) => member && ['public_field_definition', 'assignment'].includes(member.type))
+                    .map((member: any) => member.childForFieldName('type'));
+                extractTypeUses(name, [node.childForFieldName('type_parameters'), ...fieldTypes], typeParamNames(node));
+                collectFieldTypes(node, name);
                 // Walk children with class context
                 for (let i = 0; i < node.childCount; i++) {
                     walkNode(node.child(i), name);
@@ -250,6 +734,8 @@ export function parseFile(filePath: string, content: string): ParseResult {
                     content: getContent(node, 3072),
                     exported: isExported(node),
                 });
+                extractHeritage(node, nameNode.text);
+                extractTypeUses(nameNode.text, [node.childForFieldName('type_parameters'), node.childForFieldName('body')], typeParamNames(node));
             }
         } else if (type === 'type_alias_declaration') {
             const nameNode = node.childForFieldName('name');
@@ -263,6 +749,7 @@ export function parseFile(filePath: string, content: string): ParseResult {
                     content: getContent(node, 2048),
                     exported: isExported(node),
                 });
+                extractTypeUses(nameNode.text, [node.childForFieldName('type_parameters'), node.childForFieldName('value')], typeParamNames(node));
             }
         } else if (type === 'enum_declaration') {
             const nameNode = node.childForFieldName('name');
@@ -278,25 +765,29 @@ export function parseFile(filePath: string, content: string): ParseResult {
                 });
             }
         } else if (type === 'lexical_declaration' || type === 'variable_declaration') {
-            if (isExported(node)) {
+            // Module-level declarations only; locals inside function bodies are not symbols
+            if (node.parent?.type === 'program' || node.parent?.type === 'export_statement') {
                 for (let i = 0; i < node.namedChildCount; i++) {
                     const decl = node.namedChild(i);
                     if (decl && decl.type === 'variable_declarator') {
                         const nameNode = decl.childForFieldName('name');
                         const value = decl.childForFieldName('value');
-                        if (nameNode) {
-                            // Check if it's an arrow function
-                            if (value && value.type === 'arrow_function') {
+                        if (nameNode?.type === 'identifier' && !isModuleCall(value)) {
+                            const exported = isExported(node) || commonJsExports.has(nameNode.text);
+                            // Check if it's a function expression
+                            if (isFunctionValue(value)) {
                                 symbols.push({
                                     name: nameNode.text,
                                     kind: 'function',
                                     lineStart: node.startPosition.row + 1,
                                     lineEnd: node.endPosition.row + 1,
-                                    signature: getSignature(node),
+                                    signature: getSignature(node, value.childForFieldName('body')),
+                                    signatureInfo: parseSignature(value),
                                     docstring: getDocstring(node),
                                     content: getContent(node, 2048),
-                                    exported: true,
+                                    exported,
                                 });
+                                extractTypeUses(nameNode.text, [decl.childForFieldName('type'), ...signatureTypeNodes(value)], typeParamNames(value));
                             } else {
                                 symbols.push({
                                     name: nameNode.text,
@@ -305,8 +796,9 @@ export function parseFile(filePath: string, content: string): ParseResult {
                                     lineEnd: node.endPosition.row + 1,
                                     signature: getSignature(node),
                                     content: getContent(node, 1024),
-                                    exported: true,
+                                    exported,
                                 });
+                                extractTypeUses(nameNode.text, [decl.childForFieldName('type')]);
                             }
                         }
                     }
@@ -315,17 +807,39 @@ export function parseFile(filePath: string, content: string): ParseResult {
         }
 
         // Imports
-        if (type === 'import_statement' || type === 'import_declaration') {
+        if (type === 'import_statement' || type === 'import_declaration' || type === 'import_from_statement') {
             extractImport(node);
+        } else if (type === 'export_statement' && !node.childForFieldName('declaration')) {
+            extractReexport(node);
+        } else if (type === 'call_expression') {
+            extractModuleCall(node);
+        } else if (type === 'assignment_expression') {
+            const exportName = commonJsTarget(node.childForFieldName('left'));
+            if (exportName !== null) extractCommonJsExport(node, exportName);
+        }
+
+        // `new Foo()`
+        if (type === 'new_expression') {
+            const ctorNode = node.childForFieldName('constructor');
+            const targetName = ctorNode ? heritageName(ctorNode) : null;
+            const enclosing = targetName ? findEnclosingSymbol(node) : null;
+            if (targetName && enclosing) {
+                relations.push({ fromSymbol: enclosing, targetName, kind: 'instantiates', ...namePosition(ctorNode) });
+            }
         }
 
-        // Calls
-        if (type === 'call_expression') {
+        // Calls (`call` is Python's node type)
+        if (type === 'call_expression' || type === 'call') {
             const funcNode = node.childForFieldName('function');
             if (funcNode) {
                 let calledName = funcNode.text;
-                // Simplify member expressions to last two parts
-                if (calledName.includes('.')) {
+                const objectNode = funcNode.childForFieldName('object');
+                const memberNode = funcNode.childForFieldName('property') || funcNode.childForFieldName('attribute');
+                const receiver = objectNode && memberNode ? receiverType(objectNode) : null;
+                if (receiver !== null) {
+                    calledName = receiver ? `${receiver}.${memberNode.text}` : memberNode.text;
+                } else if (calledName.includes('.')) {
+                    // Simplify member expressions to last two parts
                     const parts = calledName.split('.');
                     calledName = parts.slice(-2).join('.');
                 }
@@ -335,7 +849,7 @@ export function parseFile(filePath: string, content: string): ParseResult {
                         calls.push({
                             callerSymbol: enclosing,
                             calledName,
-                            line: node.startPosition.row + 1,
+                            ...namePosition(funcNode),
                         });
                     }
                 }
@@ -348,40 +862,719 @@ export function parseFile(filePath: string, content: string): ParseResult {
         }
     }
 
-    function extractImport(node: any) {
-        const sourceNode = node.childForFieldName('source') ||
-            node.children?.find((c: any) => c.type === 'string' || c.type === 'string_literal');
+    // --- Rust ---
 
-        if (!sourceNode) {
-            // Python: import X
-            if (language === 'python') {
-                const moduleNode = node.childForFieldName('name') ||
-                    node.children?.find((c: any) => c.type === 'dotted_name' || c.type === 'aliased_import');
-                if (moduleNode) {
+    function rustTypeName(typeNode: any): string | null {
+        if (!typeNode) return null;
+        if (typeNode.type === 'generic_type' || typeNode.type === 'reference_type') {
+            return rustTypeName(typeNode.childForFieldName('type'));
+        }
+        return typeNode.text;
+    }
+
+    // `c: &Client`, `let c: Client`; `Self` is the impl's type
+    function rustLocalType(typeNode: any): string | null {
+        const name = rustTypeName(typeNode)?.split('::').pop();
+        if (!name || !/^[A-Z]/.test(name)) return null;
+        return name === 'Self' ? receiverOwner(typeNode) : name;
+    }
+
+    // `Client::new()`, `Client::connect(url)?` and `Client { .. }` are taken to produce a Client
+    function rustConstructedType(value: any): string | null {
+        if (value?.type === 'try_expression') return rustConstructedType(value.namedChildren[0]);
+        if (value?.type === 'struct_expression') return rustLocalType(value.childForFieldName('name'));
+        const func = value?.type === 'call_expression' ? value.childForFieldName('function') : null;
+        return func?.type === 'scoped_identifier' ? rustLocalType(func.childForFieldName('path')) : null;
+    }
+
+    // Nearest impl type, trait or inline module a Rust item belongs to
+    function rustOwner(node: any): string | null {
+        for (let cur = node.parent; cur; cur = cur.parent) {
+            if (cur.type === 'impl_item') return rustTypeName(cur.childForFieldName('type'));
+            if (cur.type === 'trait_item' || cur.type === 'mod_item') return cur.childForFieldName('name')?.text || null;
+            if (cur.type === 'function_item') return null;
+        }
+        return null;
+    }
+
+    function isRustPublic(node: any): boolean {
+        return node.namedChildren.some((c: any) => c.type === 'visibility_modifier');
+    }
+
+    // Trait items and trait impl members are as visible as the trait itself
+    function inRustTrait(node: any): boolean {
+        const container = node.parent?.parent;
+        if (!container) return false;
+        return container.type === 'trait_item' ||
+            (container.type === 'impl_item' && !!container.childForFieldName('trait'));
+    }
+
+    function findRustEnclosingSymbol(node: any): string | null {
+        for (let cur = node.parent; cur; cur = cur.parent) {
+            if (cur.type === 'function_item') {
+                const name = cur.childForFieldName('name')?.text;
+                if (!name) return null;
+                const owner = rustOwner(cur);
+                return owner ? `${owner}::${name}` : name;
+            }
+        }
+        return null;
+    }
+
+    function rustCalledName(funcNode: any): string | null {
+        if (funcNode.type === 'generic_function') {
+            const inner = funcNode.childForFieldName('function');
+            return inner ? rustCalledName(inner) : null;
+        }
+        if (funcNode.type === 'field_expression') {
+            // `self.save()` inside `impl Repo` calls `Repo::save`
+            const valueNode = funcNode.childForFieldName('value');
+            const fieldNode = funcNode.childForFieldName('field');
+            const receiver = valueNode && fieldNode ? receiverType(valueNode) : null;
+            if (receiver) return `${receiver}::${fieldNode.text}`;
+            return funcNode.text.split('.').slice(-2).join('.');
+        }
+        // crate::a::b::f() → b::f; self:: and super:: prefixes carry no information here
+        const parts = funcNode.text.split('::').filter((p: string) => !['crate', 'self', 'super'].includes(p));
+        if (parts[0] === 'Self' && parts.length === 2) parts[0] = receiverOwner(funcNode) || parts[0];
+        return parts.slice(-2).join('::') || null;
+    }
+
+    const RUST_SYMBOL_KINDS: Record<string, { kind: string; maxLen: number }> = {
+        struct_item: { kind: 'struct', maxLen: 3072 },
+        union_item: { kind: 'struct', maxLen: 3072 },
+        enum_item: { kind: 'enum', maxLen: 2048 },
+        trait_item: { kind: 'trait', maxLen: 3072 },
+        mod_item: { kind: 'module', maxLen: 1024 },
+        macro_definition: { kind: 'macro', maxLen: 2048 },
+        type_item: { kind: 'type', maxLen: 1024 },
+        const_item: { kind: 'constant', maxLen: 1024 },
+        static_item: { kind: 'variable', maxLen: 1024 },
+    };
+
+    interface RustUseLeaf {
+        segments: string[];
+        alias: string | null;
+        wildcard: boolean;
+        node: any;          // path node, for the position of the imported name
+    }
+
+    function collectRustUse(
+        node: any,
+        prefix: string[],
+        out: RustUseLeaf[]
+    ) {
+        switch (node.type) {
+            case 'use_as_clause': {
+                const pathNode = node.childForFieldName('path');
+                const alias = node.childForFieldName('alias')?.text || null;
+                if (pathNode) out.push({ segments: [...prefix, ...pathNode.text.split('::')], alias, wildcard: false, node: pathNode });
+                break;
+            }
+            case 'scoped_use_list': {
+                const pathNode = node.childForFieldName('path');
+                const listNode = node.childForFieldName('list');
+                const segments = pathNode ? [...prefix, ...pathNode.text.split('::')] : prefix;
+                if (listNode) collectRustUse(listNode, segments, out);
+                break;
+            }
+            case 'use_list':
+                for (const child of node.namedChildren) collectRustUse(child, prefix, out);
+                break;
+            case 'use_wildcard': {
+                const pathNode = node.firstNamedChild;
+                const segments = pathNode ? [...prefix, ...pathNode.text.split('::')] : prefix;
+                out.push({ segments, alias: null, wildcard: true, node });
+                break;
+            }
+            case 'identifier':
+            case 'scoped_identifier':
+            case 'crate':
+            case 'self':
+            case 'super':
+                out.push({ segments: [...prefix, ...node.text.split('::')], alias: null, wildcard: false, node });
+                break;
+        }
+    }
+
+    // `use a::b::{c, d as e}` → one import of module `a::b` binding c and e; modules bind as namespaces
+    function extractRustUse(node: any) {
+        const argument = node.childForFieldName('argument');
+        if (!argument) return;
+
+        const leaves: RustUseLeaf[] = [];
+        collectRustUse(argument, [], leaves);
+
+        const grouped = new Map<string, ExtractedImport>();
+        for (const leaf of leaves) {
+            if (leaf.wildcard) {
+                imports.push({ source: leaf.segments.join('::'), names: [], isDefault: false, bindings: [{ local: '*', imported: '*' }], line: node.startPosition.row + 1 });
+                continue;
+            }
+            // `use a::b::{self}` binds module b itself
+            const isSelf = leaf.segments[leaf.segments.length - 1] === 'self';
+            const segments = isSelf ? leaf.segments.slice(0, -1) : leaf.segments;
+            const name = segments[segments.length - 1];
+            if (!name) continue;
+
+            if (segments.length === 1 || isSelf) {
+                imports.push({ source: segments.join('::'), names: [], isDefault: true, bindings: [{ local: leaf.alias || name, imported: '*' }], line: node.startPosition.row + 1 });
+                continue;
+            }
+            const source = segments.slice(0, -1).join('::');
+            if (!grouped.has(source)) {
+                grouped.set(source, { source, names: [], isDefault: false, bindings: [], line: node.startPosition.row + 1 });
+            }
+            const imp = grouped.get(source)!;
+            imp.names.push(name);
+            imp.bindings.push({ local: leaf.alias || name, imported: name, ...namePosition(leaf.node) });
+        }
+        imports.push(...grouped.values());
+    }
+
+    function walkRustNode(node: any) {
+        const type = node.type;
+
+        if (type === 'function_item' || type === 'function_signature_item') {
+            const nameNode = node.childForFieldName('name');
+            if (nameNode) {
+                const owner = rustOwner(node);
+                const inImplOrTrait = node.parent?.parent?.type === 'impl_item' || node.parent?.parent?.type === 'trait_item';
+                symbols.push({
+                    name: nameNode.text,
+                    qualifiedName: owner ? `${owner}::${nameNode.text}` : undefined,
+                    kind: inImplOrTrait ? 'method' : 'function',
+                    lineStart: node.startPosition.row + 1,
+                    lineEnd: node.endPosition.row + 1,
+                    signature: getSignature(node),
+                    signatureInfo: parseSignature(node),
+                    docstring: getDocstring(node),
+                    content: getContent(node, 2048),
+                    exported: isRustPublic(node) || inRustTrait(node),
+                });
+                extractTypeUses(owner ? `${owner}::${nameNode.text}` : nameNode.text, signatureTypeNodes(node), typeParamNames(node));
+            }
+        } else if (RUST_SYMBOL_KINDS[type]) {
+            const nameNode = node.childForFieldName('name');
+            if (nameNode) {
+                const { kind, maxLen } = RUST_SYMBOL_KINDS[type];
+                const owner = rustOwner(node);
+                const macroExported = type === 'macro_definition' &&
+                    node.previousNamedSibling?.type === 'attribute_item' &&
+                    node.previousNamedSibling.text.includes('macro_export');
+                symbols.push({
+                    name: nameNode.text,
+                    qualifiedName: owner ? `${owner}::${nameNode.text}` : undefined,
+                    kind,
+                    lineStart: node.startPosition.row + 1,
+                    lineEnd: node.endPosition.row + 1,
+                    signature: getSignature(node),
+                    docstring: getDocstring(node),
+                    content: getContent(node, maxLen),
+                    exported: isRustPublic(node) || macroExported,
+                });
+                // Field and variant types of data items; the aliased or declared type of the rest
+                const typeNode = ['struct_item', 'union_item', 'enum_item'].includes(type)
+                    ? node.childForFieldName('body')
+                    : ['type_item', 'const_item', 'static_item'].includes(type) ? node.childForFieldName('type') : null;
+                if (typeNode) {
+                    extractTypeUses(owner ? `${owner}::${nameNode.text}` : nameNode.text,
+                        [node.childForFieldName('type_parameters'), typeNode], typeParamNames(node));
+                }
+                // `mod foo;` pulls in foo.rs or foo/mod.rs
+                if (type === 'mod_item' && !node.childForFieldName('body')) {
                     imports.push({
-                        source: moduleNode.text,
+                        source: `self::${nameNode.text}`,
                         names: [],
                         isDefault: true,
+                        bindings: [{ local: nameNode.text, imported: '*' }],
+                        line: node.startPosition.row + 1,
                     });
                 }
             }
+        } else if (type === 'impl_item') {
+            const typeName = rustTypeName(node.childForFieldName('type'));
+            const traitNode = node.childForFieldName('trait');
+            if (typeName && traitNode) {
+                relations.push({
+                    fromSymbol: typeName,
+                    targetName: rustTypeName(traitNode) || traitNode.text,
+                    kind: 'implements',
+                    ...namePosition(traitNode),
+                });
+            }
+        } else if (type === 'use_declaration') {
+            extractRustUse(node);
             return;
+        } else if (type === 'call_expression') {
+            const funcNode = node.childForFieldName('function');
+            const calledName = funcNode ? rustCalledName(funcNode) : null;
+            if (calledName && calledName.length < 100) {
+                const enclosing = findRustEnclosingSymbol(node);
+                if (enclosing) {
+                    calls.push({ callerSymbol: enclosing, calledName, ...namePosition(funcNode) });
+                }
+            }
         }
 
+        for (let i = 0; i < node.childCount; i++) {
+            walkRustNode(node.child(i));
+        }
+    }
+
+    // --- Go ---
+
+    function isGoExported(name: string): boolean {
+        return /^\p{Lu}/u.test(name);
+    }
+
+    // `(s *Server)` / `(s Server[T])` → Server
+    function goReceiverType(node: any): string | null {
+        const param = node.childForFieldName('receiver')?.namedChildren.find((c: any) => c.type === 'parameter_declaration');
+        let typeNode = param?.childForFieldName('type');
+        while (typeNode && (typeNode.type === 'pointer_type' || typeNode.type === 'generic_type')) {
+            typeNode = typeNode.type === 'pointer_type' ? typeNode.namedChildren[0] : typeNode.childForFieldName('type');
+        }
+        return typeNode?.text || null;
+    }
+
+    // `s` inside `func (s *Server) ...` is the receiver, as `self` is in Python
+    function goReceiverOf(ident: any): string | null {
+        for (let cur = ident.parent; cur; cur = cur.parent) {
+            if (cur.type === 'function_declaration') return null;
+            if (cur.type === 'method_declaration') {
+                const param = cur.childForFieldName('receiver')?.namedChildren.find((c: any) => c.type === 'parameter_declaration');
+                return param?.childForFieldName('name')?.text === ident.text ? goReceiverType(cur) : null;
+            }
+        }
+        return null;
+    }
+
+    function goSymbolName(node: any): string | null {
+        const name = node.childForFieldName('name')?.text;
+        if (!name) return null;
+        if (node.type === 'method_declaration') {
+            const receiver = goReceiverType(node);
+            return receiver ? `${receiver}.${name}` : name;
+        }
+        return name;
+    }
+
+    function findGoEnclosingSymbol(node: any): string | null {
+        for (let cur = node.parent; cur; cur = cur.parent) {
+            if (cur.type === 'function_declaration' || cur.type === 'method_declaration') {
+                return goSymbolName(cur);
+            }
+        }
+        return null;
+    }
+
+    function extractGoImport(spec: any) {
+        const pathNode = spec.childForFieldName('path');
+        if (!pathNode) return;
+        const source: string = pathNode.text.replace(/["`]/g, '');
+        const nameNode = spec.childForFieldName('name');
+
+        const bindings: ImportBinding[] = [];
+        if (!nameNode) {
+            // Package name conventionally matches the last path element (ignoring a /vN suffix)
+            const parts = source.split('/').filter(p => !/^v\d+$/.test(p));
+            bindings.push({ local: parts[parts.length - 1] || source, imported: '*' });
+        } else if (nameNode.type === 'dot') {
+            bindings.push({ local: '*', imported: '*' });
+        } else if (nameNode.text !== '_') {
+            bindings.push({ local: nameNode.text, imported: '*' });
+        }
+        imports.push({ source, names: [], isDefault: true, bindings, line: spec.startPosition.row + 1 });
+    }
+
+    function walkGoNode(node: any) {
+        const type = node.type;
+
+        if (type === 'function_declaration' || type === 'method_declaration') {
+            const nameNode = node.childForFieldName('name');
+            const receiver = type === 'method_declaration' ? goReceiverType(node) : null;
+            if (nameNode) {
+                symbols.push({
+                    name: nameNode.text,
+                    qualifiedName: receiver ? `${receiver}.${nameNode.text}` : undefined,
+                    kind: receiver ? 'method' : 'function',
+                    lineStart: node.startPosition.row + 1,
+                    lineEnd: node.endPosition.row + 1,
+                    signature: getSignature(node),
+                    signatureInfo: parseSignature(node),
+                    docstring: getDocstring(node),
+                    content: getContent(node, 2048),
+                    exported: isGoExported(nameNode.text),
+                });
+                extractTypeUses(receiver ? `${receiver}.${nameNode.text}` : nameNode.text, signatureTypeNodes(node), typeParamNames(node));
+            }
+        } else if (type === 'type_spec' || type === 'type_alias') {
+            const nameNode = node.childForFieldName('name');
+            const typeNode = node.childForFieldName('type');
+            if (nameNode) {
+                const kind = type === 'type_alias' ? 'type'
+                    : typeNode?.type === 'struct_type' ? 'struct'
+                    : typeNode?.type === 'interface_type' ? 'interface'
+                    : 'type';
+                // Doc comments sit above the `type` keyword, not the spec
+                const declNode = node.parent?.type === 'type_declaration' ? node.parent : node;
+                symbols.push({
+                    name: nameNode.text,
+                    kind,
+                    lineStart: node.startPosition.row + 1,
+                    lineEnd: node.endPosition.row + 1,
+                    signature: getSignature(node),
+                    docstring: getDocstring(declNode),
+                    content: getContent(node, kind === 'type' ? 2048 : 3072),
+                    exported: isGoExported(nameNode.text),
+                });
+                extractTypeUses(nameNode.text, [node.childForFieldName('type_parameters'), typeNode], typeParamNames(node));
+                if (typeNode?.type === 'interface_type') {
+                    for (const elem of typeNode.namedChildren) {
+                        const elemName = elem.type === 'method_elem' ? elem.childForFieldName('name') : null;
+                        if (!elemName) continue;
+                        symbols.push({
+                            name: elemName.text,
+                            qualifiedName: `${nameNode.text}.${elemName.text}`,
+                            kind: 'method',
+                            lineStart: elem.startPosition.row + 1,
+                            lineEnd: elem.endPosition.row + 1,
+                            signature: getSignature(elem),
+                            docstring: getDocstring(elem),
+                            exported: isGoExported(elemName.text),
+                        });
+                    }
+                }
+            }
+        } else if (type === 'const_spec' || type === 'var_spec') {
+            // Package-level only; locals inside function bodies are not symbols
+            if (!findGoEnclosingSymbol(node)) {
+                for (const nameNode of node.childrenForFieldName('name')) {
+                    symbols.push({
+                        name: nameNode.text,
+                        kind: type === 'const_spec' ? 'constant' : 'variable',
+                        lineStart: node.startPosition.row + 1,
+                        lineEnd: node.endPosition.row + 1,
+                        signature: getSignature(node),
+                        content: getContent(node, 1024),
+                        exported: isGoExported(nameNode.text),
+                    });
+                    extractTypeUses(nameNode.text, [node.childForFieldName('type')]);
+                }
+            }
+        } else if (type === 'import_spec') {
+            extractGoImport(node);
+        } else if (type === 'call_expression') {
+            const funcNode = node.childForFieldName('function');
+            if (funcNode && (funcNode.type === 'identifier' || funcNode.type === 'selector_expression')) {
+                let calledName = funcNode.text.split('.').slice(-2).join('.');
+                const operand = funcNode.childForFieldName('operand');
+                const receiver = operand?.type === 'identifier' ? goReceiverOf(operand) : null;
+                if (receiver) calledName = `${receiver}.${funcNode.childForFieldName('field').text}`;
+                const enclosing = findGoEnclosingSymbol(node);
+                if (enclosing && calledName.length < 100) {
+                    calls.push({ callerSymbol: enclosing, calledName, ...namePosition(funcNode) });
+                }
+            }
+        }
+
+        for (let i = 0; i < node.childCount; i++) {
+            walkGoNode(node.child(i));
+        }
+    }
+
+    // --- C / C++ ---
+
+    const C_NAME_TYPES = ['identifier', 'field_identifier', 'qualified_identifier', 'destructor_name', 'operator_name', 'type_identifier'];
+
+    const C_TYPE_KINDS: Record<string, string> = {
+        class_specifier: 'class',
+        struct_specifier: 'struct',
+        union_specifier: 'union',
+        enum_specifier: 'enum',
+    };
+
+    // reference_declarator has no `declarator` field; its inner declarator is the first named child
+    function nextCDeclarator(decl: any): any | null {
+        if (decl.type === 'reference_declarator') return decl.namedChildren[0] || null;
+        return decl.childForFieldName('declarator');
+    }
+
+    // Follow declarators through pointer/reference/function declarators to the name
+    function cDeclaratorName(decl: any): any | null {
+        for (let cur = decl; cur; cur = nextCDeclarator(cur)) {
+            if (C_NAME_TYPES.includes(cur.type)) return cur;
+        }
+        return null;
+    }
+
+    function hasFunctionDeclarator(decl: any): boolean {
+        for (let cur = decl; cur; cur = nextCDeclarator(cur)) {
+            if (cur.type === 'function_declarator') return true;
+        }
+        return false;
+    }
+
+    // Return type and parameter list of a function definition or prototype
+    function cSignatureTypeNodes(node: any): any[] {
+        let decl = node.childForFieldName('declarator');
+        while (decl && decl.type !== 'function_declarator') decl = nextCDeclarator(decl);
+        return [node.childForFieldName('type'), decl?.childForFieldName('parameters')];
+    }
+
+    // `::geo::Shape<T>::area` → `geo::Shape::area`
+    function cQualifiedText(text: string): string {
+        let plain = text.replace(/^::/, '');
+        while (/<[^<>]*>/.test(plain)) plain = plain.replace(/<[^<>]*>/g, '');
+        return plain.replace(/\s/g, '');
+    }
+
+    // Enclosing classes/structs and namespaces, outermost first; `isType` when the nearest is a type
+    function cOwner(node: any): { name: string; isType: boolean } | null {
+        const scopes: string[] = [];
+        let isType: boolean | null = null;
+        for (let cur = node.parent; cur; cur = cur.parent) {
+            if (cur.type === 'function_definition') break;
+            const type = C_TYPE_KINDS[cur.type] && cur.childForFieldName('body');
+            if (!type && cur.type !== 'namespace_definition') continue;
+            const name = cur.childForFieldName('name')?.text.replace(/\s/g, '');
+            // Anonymous structs and namespaces add no scope
+            if (!name) continue;
+            scopes.unshift(name);
+            if (isType === null) isType = !!type;
+        }
+        return scopes.length > 0 ? { name: scopes.join('::'), isType: !!isType } : null;
+    }
+
+    // Members defined inside and outside their class (`void geo::Shape::area()`) get the same full name
+    function cSymbolNames(node: any, nameNode: any): { name: string; qualifiedName?: string; inClass: boolean } {
+        const owner = cOwner(node);
+        if (nameNode.type === 'qualified_identifier') {
+            const qualifiedName = (owner ? `${owner.name}::` : '') + cQualifiedText(nameNode.text);
+            return { name: qualifiedName.split('::').pop()!, qualifiedName, inClass: true };
+        }
+        return {
+            name: nameNode.text,
+            qualifiedName: owner ? `${owner.name}::${nameNode.text}` : undefined,
+            inClass: !!owner?.isType,
+        };
+    }
+
+    function isCStatic(node: any): boolean {
+        return node.namedChildren.some((c: any) => c.type === 'storage_class_specifier' && c.text === 'static');
+    }
+
+    function findCEnclosingSymbol(node: any): string | null {
+        for (let cur = node.parent; cur; cur = cur.parent) {
+            if (cur.type === 'function_definition') {
+                const nameNode = cDeclaratorName(cur.childForFieldName('declarator'));
+                if (!nameNode) return null;
+                const names = cSymbolNames(cur, nameNode);
+                return names.qualifiedName || names.name;
+            }
+        }
+        return null;
+    }
+
+    function cCalledName(funcNode: any): string | null {
+        if (funcNode.type === 'template_function') {
+            const inner = funcNode.childForFieldName('name');
+            return inner ? cCalledName(inner) : null;
+        }
+        if (funcNode.type === 'identifier') return funcNode.text;
+        if (funcNode.type === 'qualified_identifier') return cQualifiedText(funcNode.text);
+        if (funcNode.type === 'field_expression') {
+            return funcNode.text.replace(/->/g, '.').split('.').slice(-2).join('.');
+        }
+        return null;
+    }
+
+    function walkCNode(node: any) {
+        const type = node.type;
+
+        if (type === 'function_definition') {
+            const nameNode = cDeclaratorName(node.childForFieldName('declarator'));
+            if (nameNode) {
+                const names = cSymbolNames(node, nameNode);
+                symbols.push({
+                    name: names.name,
+                    qualifiedName: names.qualifiedName,
+                    kind: names.inClass ? 'method' : 'function',
+                    lineStart: node.startPosition.row + 1,
+                    lineEnd: node.endPosition.row + 1,
+                    signature: getSignature(node),
+                    signatureInfo: parseSignature(node),
+                    docstring: getDocstring(node.parent?.type === 'template_declaration' ? node.parent : node),
+                    content: getContent(node, 2048),
+                    exported: !isCStatic(node),
+                });
+                extractTypeUses(names.qualifiedName || names.name, cSignatureTypeNodes(node));
+            }
+        } else if ((type === 'declaration' || type === 'field_declaration') && hasFunctionDeclarator(node.childForFieldName('declarator'))) {
+            // Prototypes; linked to their definitions with `declares` edges after indexing
+            const nameNode = cDeclaratorName(node.childForFieldName('declarator'));
+            if (nameNode) {
+                const names = cSymbolNames(node, nameNode);
+                symbols.push({
+                    name: names.name,
+                    qualifiedName: names.qualifiedName,
+                    kind: 'declaration',
+                    lineStart: node.startPosition.row + 1,
+                    lineEnd: node.endPosition.row + 1,
+                    signature: getSignature(node),
+                    signatureInfo: parseSignature(node),
+                    docstring: getDocstring(node),
+                    content: getContent(node, 1024),
+                    exported: !isCStatic(node),
+                });
+                extractTypeUses(names.qualifiedName || names.name, cSignatureTypeNodes(node));
+            }
+        } else if (C_TYPE_KINDS[type] && node.childForFieldName('body')) {
+            const nameNode = node.childForFieldName('name');
+            if (nameNode) {
+                const names = cSymbolNames(node, nameNode);
+                const declNode = node.parent?.type === 'type_definition' || node.parent?.type === 'template_declaration'
+                    ? node.parent : node;
+                symbols.push({
+                    name: names.name,
+                    qualifiedName: names.qualifiedName,
+                    kind: C_TYPE_KINDS[type],
+                    lineStart: node.startPosition.row + 1,
+                    lineEnd: node.endPosition.row + 1,
+                    signature: getSignature(node),
+                    docstring: getDocstring(declNode),
+                    content: getContent(node, 3072),
+                    exported: true,
+                });
+                extractHeritage(node, names.qualifiedName || names.name);
+                extractTypeUses(names.qualifiedName || names.name, [node.childForFieldName('body')]);
+            }
+        } else if (type === 'type_definition' || type === 'alias_declaration') {
+            const nameNode = type === 'alias_declaration'
+                ? node.childForFieldName('name')
+                : cDeclaratorName(node.childForFieldName('declarator'));
+            if (nameNode) {
+                const names = cSymbolNames(node, nameNode);
+                symbols.push({
+                    name: names.name,
+                    qualifiedName: names.qualifiedName,
+                    kind: 'type',
+                    lineStart: node.startPosition.row + 1,
+                    lineEnd: node.endPosition.row + 1,
+                    signature: getSignature(node),
+                    docstring: getDocstring(node),
+                    content: getContent(node, 2048),
+                    exported: true,
+                });
+                extractTypeUses(names.qualifiedName || names.name, [node.childForFieldName('type')]);
+            }
+        } else if (type === 'namespace_definition') {
+            const nameNode = node.childForFieldName('name');
+            if (nameNode) {
+                symbols.push({
+                    name: nameNode.text.replace(/\s/g, ''),
+                    kind: 'namespace',
+                    lineStart: node.startPosition.row + 1,
+                    lineEnd: node.endPosition.row + 1,
+                    signature: getSignature(node),
+                    docstring: getDocstring(node),
+                    exported: true,
+                });
+            }
+        } else if (type === 'preproc_include') {
+            const pathNode = node.childForFieldName('path');
+            if (pathNode) {
+                // Quoted includes search the including directory first; <...> only include paths
+                const quoted = pathNode.type === 'string_literal';
+                imports.push({
+                    source: quoted ? pathNode.text.replace(/"/g, '') : pathNode.text,
+                    names: [],
+                    isDefault: false,
+                    bindings: [{ local: '*', imported: '*' }],
+                    line: node.startPosition.row + 1,
+                });
+            }
+        } else if (type === 'call_expression') {
+            const funcNode = node.childForFieldName('function');
+            const calledName = funcNode ? cCalledName(funcNode) : null;
+            if (calledName && calledName.length < 100) {
+                const enclosing = findCEnclosingSymbol(node);
+                if (enclosing) {
+                    calls.push({ callerSymbol: enclosing, calledName, ...namePosition(funcNode) });
+                }
+            }
+        }
+
+        for (let i = 0; i < node.childCount; i++) {
+            walkCNode(node.child(i));
+        }
+    }
+
+    function extractPythonImport(node: any) {
+        if (node.type === 'import_statement') {
+            // import a.b, c as d — each module is its own import, bound as a namespace
+            for (const nameNode of node.childrenForFieldName('name')) {
+                const moduleNode = nameNode.type === 'aliased_import' ? nameNode.childForFieldName('name') : nameNode;
+                const aliasNode = nameNode.type === 'aliased_import' ? nameNode.childForFieldName('alias') : null;
+                if (!moduleNode) continue;
+                imports.push({
+                    source: moduleNode.text,
+                    names: [],
+                    isDefault: true,
+                    bindings: [{ local: aliasNode?.text || moduleNode.text, imported: '*' }],
+                    line: node.startPosition.row + 1,
+                });
+            }
+            return;
+        }
+
+        // from x import a, b as c / from . import d / from x import *
+        const moduleNode = node.childForFieldName('module_name');
+        if (!moduleNode) return;
+
+        const names: string[] = [];
+        const bindings: ImportBinding[] = [];
+        for (const nameNode of node.childrenForFieldName('name')) {
+            const importedNode = nameNode.type === 'aliased_import' ? nameNode.childForFieldName('name') : nameNode;
+            const aliasNode = nameNode.type === 'aliased_import' ? nameNode.childForFieldName('alias') : null;
+            if (!importedNode) continue;
+            names.push(importedNode.text);
+            bindings.push({ local: aliasNode?.text || importedNode.text, imported: importedNode.text, ...namePosition(importedNode) });
+        }
+        if (node.namedChildren.some((c: any) => c.type === 'wildcard_import')) {
+            bindings.push({ local: '*', imported: '*' });
+        }
+
+        imports.push({ source: moduleNode.text, names, isDefault: names.length === 0, bindings, line: node.startPosition.row + 1 });
+    }
+
+    function extractImport(node: any) {
+        if (language === 'python') {
+            extractPythonImport(node);
+            return;
+        }
+
+        const sourceNode = node.childForFieldName('source') ||
+            node.children?.find((c: any) => c.type === 'string' || c.type === 'string_literal');
+        if (!sourceNode) return;
+
         const source = sourceNode.text.replace(/['"]/g, '');
         const names: string[] = [];
+        const bindings: ImportBinding[] = [];
         let isDefault = false;
 
         // Look for named imports
         for (let i = 0; i < node.childCount; i++) {
             const child = node.child(i);
             if (child.type === 'import_clause' || child.type === 'named_imports' || child.type === 'import_specifier') {
-                walkImportNames(child, names);
+                walkImportNames(child, names, bindings);
                 if (child.type === 'import_clause') {
                     const firstNamed = child.firstNamedChild;
                     if (firstNamed && firstNamed.type === 'identifier') {
                         isDefault = true;
                         names.push(firstNamed.text);
+                        bindings.push({ local: firstNamed.text, imported: 'default', ...namePosition(firstNamed) });
                     }
                 }
             }
@@ -389,21 +1582,233 @@ export function parseFile(filePath: string, content: string): ParseResult {
 
         if (names.length === 0) isDefault = true;
 
-        imports.push({ source, names, isDefault });
+        imports.push({ source, names, isDefault, bindings, line: node.startPosition.row + 1 });
+    }
+
+    // `export { a, b as c } from './x'`, `export * from './y'`, `export * as ns from './z'`.
+    // `export { a }` without a source is resolved against the imports once the walk is done.
+    function extractReexport(node: any) {
+        const sourceNode = node.childForFieldName('source');
+        const bindings: ImportBinding[] = [];
+        for (const child of node.namedChildren) {
+            if (child.type === 'namespace_export' && child.firstNamedChild) {
+                bindings.push({ local: child.firstNamedChild.text, imported: '*' });
+            } else if (child.type === 'export_clause') {
+                for (const spec of child.namedChildren) {
+                    const nameNode = spec.childForFieldName('name');
+                    if (!nameNode) continue;
+                    const local = spec.childForFieldName('alias')?.text || nameNode.text;
+                    bindings.push({ local, imported: nameNode.text, ...namePosition(nameNode) });
+                }
+            }
+        }
+
+        if (!sourceNode) {
+            localExports.push({ node, bindings });
+            return;
+        }
+        if (bindings.length === 0) bindings.push({ local: '*', imported: '*' });
+        addReexport(node, sourceNode.text.replace(/['"]/g, ''), bindings);
     }
 
-    function walkImportNames(node: any, names: string[]) {
+    // Named re-exports get a `reexport` symbol so the barrel has a node to hang `reexports` edges on
+    function addReexport(node: any, source: string, bindings: ImportBinding[]) {
+        imports.push({ source, names: bindings.map(b => b.imported), isDefault: false, bindings, reexport: true, line: node.startPosition.row + 1 });
+        for (const binding of bindings) {
+            if (binding.local === '*' || binding.imported === '*') continue;
+            symbols.push({
+                name: binding.local,
+                kind: 'reexport',
+                lineStart: node.startPosition.row + 1,
+                lineEnd: node.endPosition.row + 1,
+                signature: getSignature(node),
+                exported: true,
+            });
+        }
+    }
+
+    // `import { a } from './x'; export { a }` re-exports too
+    function resolveLocalExports() {
+        for (const { node, bindings } of localExports) {
+            for (const binding of bindings) {
+                const imp = imports.find(i => !i.reexport && i.bindings.some(b => b.local === binding.imported));
+                const imported = imp?.bindings.find(b => b.local === binding.imported);
+                if (!imp || !imported) continue;
+                addReexport(node, imp.source, [{ ...binding, imported: imported.imported }]);
+            }
+        }
+    }
+
+    // `module.exports` → '', `exports.foo` / `module.exports.foo` → 'foo', anything else → null
+    function commonJsTarget(left: any): string | null {
+        if (left?.type !== 'member_expression') return null;
+        const match = COMMONJS_EXPORT.exec(left.text.replace(/\s/g, ''));
+        return match ? match[1] || '' : null;
+    }
+
+    // Names a CommonJS module exports by reference (`module.exports = { foo }`, `exports.bar = bar`),
+    // collected up front so the declarations they point at are picked up when walked
+    function collectCommonJsExports(root: any) {
+        for (const statement of root.namedChildren) {
+            const assignment = statement.type === 'expression_statement' ? statement.firstNamedChild : null;
+            if (assignment?.type !== 'assignment_expression') continue;
+            const target = commonJsTarget(assignment.childForFieldName('left'));
+            const value = assignment.childForFieldName('right');
+            if (target === null || !value) continue;
+
+            if (value.type === 'identifier') {
+                commonJsExports.add(value.text);
+            } else if (target === '' && value.type === 'object') {
+                for (const prop of value.namedChildren) {
+                    if (prop.type === 'shorthand_property_identifier') {
+                        commonJsExports.add(prop.text);
+                    } else if (prop.type === 'pair' && prop.childForFieldName('value')?.type === 'identifier') {
+                        commonJsExports.add(prop.childForFieldName('value').text);
+                    } else if (prop.type === 'method_definition' && prop.childForFieldName('name')) {
+                        commonJsExports.add(prop.childForFieldName('name').text);
+                    }
+                }
+            }
+        }
+    }
+
+    // Values defined inline in a CommonJS export become exported symbols under the export name
+    function extractCommonJsExport(node: any, exportName: string) {
+        const value = node.childForFieldName('right');
+        if (!value || value.type === 'identifier') return;
+        const statement = node.parent?.type === 'expression_statement' ? node.parent : node;
+
+        // `module.exports = class Foo {}` is walked as a class like any other
+        const className = value.type === 'class' ? value.childForFieldName('name')?.text : null;
+        if (className) {
+            commonJsExports.add(className);
+        } else if (exportName !== '') {
+            addCommonJsSymbol(exportName, value, statement);
+        } else if (value.type === 'object') {
+            for (const prop of value.namedChildren) {
+                const key = prop.type === 'pair' ? prop.childForFieldName('key') : null;
+                const propValue = prop.type === 'pair' ? prop.childForFieldName('value') : null;
+                if (key && propValue && propValue.type !== 'identifier') addCommonJsSymbol(key.text, propValue, prop);
+            }
+        } else {
+            // `module.exports = function foo() {}`
+            const nameNode = value.childForFieldName('name');
+            if (nameNode) addCommonJsSymbol(nameNode.text, value, statement);
+        }
+    }
+
+    function addCommonJsSymbol(name: string, value: any, node: any) {
+        const kind = isFunctionValue(value) ? 'function' : 'variable';
+        symbols.push({
+            name,
+            kind,
+            lineStart: node.startPosition.row + 1,
+            lineEnd: node.endPosition.row + 1,
+            signature: getSignature(node, kind === 'function' ? value.childForFieldName('body') : null),
+            signatureInfo: kind === 'function' ? parseSignature(value) : undefined,
+            docstring: getDocstring(node),
+            content: getContent(node, kind === 'variable' ? 1024 : 2048),
+            exported: true,
+        });
+    }
+
+    /**
+     * `require('./x')` and `import('./x')` with a string literal are imports. The declaration
+     * around them gives the bindings: `const m = require()`, `const { a, b: c } = require()`,
+     * `const y = require().y`, and the same around `await import()`.
+     */
+    function extractModuleCall(node: any) {
+        const funcNode = node.childForFieldName('function');
+        const dynamic = funcNode?.type === 'import';
+        if (!dynamic && !(funcNode?.type === 'identifier' && funcNode.text === 'require')) return;
+        const args = node.childForFieldName('arguments');
+        const sourceNode = args?.namedChildCount === 1 ? args.firstNamedChild : null;
+        if (sourceNode?.type !== 'string') return;
+
+        let target = node.parent;
+        if (target?.type === 'await_expression') target = target.parent;
+        const propertyNode = target?.type === 'member_expression' ? target.childForFieldName('property') : null;
+        if (propertyNode) target = target.parent;
+        const nameNode = target?.type === 'variable_declarator' ? target.childForFieldName('name') : null;
+
+        const bindings: ImportBinding[] = [];
+        if (nameNode?.type === 'identifier') {
+            if (propertyNode) {
+                bindings.push({ local: nameNode.text, imported: propertyNode.text, ...namePosition(propertyNode) });
+            } else {
+                bindings.push({ local: nameNode.text, imported: '*' });
+                // A CommonJS module object is either a namespace or the single value assigned to module.exports
+                if (!dynamic) bindings.push({ local: nameNode.text, imported: 'default' });
+            }
+        } else if (nameNode?.type === 'object_pattern' && !propertyNode) {
+            for (const prop of nameNode.namedChildren) {
+                if (prop.type === 'shorthand_property_identifier_pattern') {
+                    bindings.push({ local: prop.text, imported: prop.text, ...namePosition(prop) });
+                } else if (prop.type === 'pair_pattern') {
+                    const key = prop.childForFieldName('key');
+                    const value = prop.childForFieldName('value');
+                    if (key && value?.type === 'identifier') {
+                        bindings.push({ local: value.text, imported: key.text, ...namePosition(key) });
+                    }
+                }
+            }
+        }
+
+        const names = bindings.filter(b => b.imported !== '*' && b.imported !== 'default').map(b => b.imported);
+        imports.push({
+            source: sourceNode.text.slice(1, -1),
+            names,
+            isDefault: names.length === 0,
+            bindings,
+            ...(dynamic ? { dynamic } : {}),
+            line: node.startPosition.row + 1,
+        });
+    }
+
+    function walkImportNames(node: any, names: string[], bindings: ImportBinding[]) {
         if (node.type === 'import_specifier') {
             const nameNode = node.childForFieldName('name');
-            if (nameNode) names.push(nameNode.text);
+            const aliasNode = node.childForFieldName('alias');
+            if (nameNode) {
+                names.push(nameNode.text);
+                bindings.push({ local: aliasNode?.text || nameNode.text, imported: nameNode.text, ...namePosition(nameNode) });
+            }
+            return;
+        }
+        if (node.type === 'namespace_import') {
+            const nsNode = node.firstNamedChild;
+            if (nsNode) bindings.push({ local: nsNode.text, imported: '*' });
             return;
         }
         for (let i = 0; i < node.childCount; i++) {
-            walkImportNames(node.child(i), names);
+            walkImportNames(node.child(i), names, bindings);
+        }
+    }
+
+    if (language === 'rust') {
+        walkRustNode(tree.rootNode);
+    } else if (language === 'go') {
+        walkGoNode(tree.rootNode);
+    } else if (grammar === 'c' || grammar === 'cpp') {
+        walkCNode(tree.rootNode);
+    } else {
+        if (language !== 'python') collectCommonJsExports(tree.rootNode);
+        walkNode(tree.rootNode);
+        resolveLocalExports();
+        resolveInheritedCalls();
+        // CommonJS exports by reference may name symbols declared anywhere in the module
+        for (const sym of symbols) {
+            if (!sym.qualifiedName && commonJsExports.has(sym.name)) sym.exported = true;
         }
     }
 
-    walkNode(tree.rootNode);
+    // Docstrings are parsed whole, then stored truncated
+    for (const sym of symbols) {
+        sym.contentHash = hashFile(lines.slice(sym.lineStart - 1, sym.lineEnd).join('\n'));
+        if (!sym.docstring) continue;
+        sym.doc = parseDocstring(sym.docstring);
+        sym.docstring = sym.docstring.slice(0, limits.docstring);
+    }
 
-    return { symbols, imports, calls, language };
+    return { symbols, imports, calls, relations, language };
 }
@@ -0,0 +1,108 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { parseFile, hashFile, getLanguage, ParseResult } from './parser';
+import { detectGenerated } from './generated';
+import { ContentLimits } from '../config';
+
+export interface ParseTask {
+    relPath: string;
+    knownHash: string | null;   // hash in the index; a match skips parsing
+}
+
+export interface ParsedFile {
+    relPath: string;
+    hash: string;
+    language: string | null;
+    lineCount: number;
+    generated: string | null;   // see detectGenerated
+    parsed: ParseResult | null; // null when the file is unchanged
+}
+
+// Files per message; two batches are kept in flight per worker so it never waits on the writer
+const BATCH_SIZE = 64;
+const WORKER_SCRIPT = path.join(__dirname, 'worker.js');
+
+/**
+ * Read, hash and (when changed) parse one file. Returns null when the file can't be read.
+ */
+export function parseTask(rootDir: string, task: ParseTask, limits: ContentLimits): ParsedFile | null {
+    let content: string;
+    try {
+        content = fs.readFileSync(path.join(rootDir, task.relPath), 'utf-8');
+    } catch {
+        return null;
+    }
+    const hash = hashFile(content);
+    return {
+        relPath: task.relPath,
+        hash,
+        language: getLanguage(task.relPath),
+        lineCount: content.split('\n').length,
+        generated: detectGenerated(task.relPath, content),
+        parsed: hash === task.knownHash ? null : parseFile(task.relPath, content, limits),
+    };
+}
+
+export function defaultWorkerCount(): number {
+    // One core stays with the main thread, which does all SQLite writes
+    return Math.max(1, (os.availableParallelism?.() ?? os.cpus().length) - 1);
+}
+
+/**
+ * Parse `tasks` on a pool of `workers` threads, handing each result to `onResult` on the
+ * calling thread as batches come back. Unreadable files are reported as null. With no
+ * workers, a single batch of work, or no compiled worker script, files are parsed inline.
+ */
+export async function parseFiles(
+    rootDir: string,
+    tasks: ParseTask[],
+    workers: number,
+    limits: ContentLimits,
+    onResult: (relPath: string, result: ParsedFile | null) => void
+): Promise<void> {
+    if (workers <= 0 || tasks.length <= BATCH_SIZE || !fs.existsSync(WORKER_SCRIPT)) {
+        for (const task of tasks) onResult(task.relPath, parseTask(rootDir, task, limits));
+        return;
+    }
+
+    const batches: ParseTask[][] = [];
+    for (let i = 0; i < tasks.length; i += BATCH_SIZE) batches.push(tasks.slice(i, i + BATCH_SIZE));
+    const poolSize = Math.min(workers, batches.length);
+    const pool: Worker[] = [];
+
+    try {
+        await new Promise<void>((resolve, reject) => {
+            let next = 0;
+            let pending = batches.length;
+
+            const dispatch = (worker: Worker) => {
+                if (next < batches.length) worker.postMessage(batches[next++]);
+            };
+
+            for (let i = 0; i < poolSize; i++) {
+                const worker = new Worker(WORKER_SCRIPT, { workerData: { rootDir, limits } });
+                pool.push(worker);
+                worker.on('message', (message: { batch: ParseTask[]; results: (ParsedFile | null)[] }) => {
+                    try {
+                        message.results.forEach((result, j) => onResult(message.batch[j].relPath, result));
+                    } catch (err) {
+                        reject(err);
+                        return;
+                    }
+                    dispatch(worker);
+                    if (--pending === 0) resolve();
+                });
+                worker.on('error', reject);
+                worker.on('exit', code => {
+                    if (code !== 0) reject(new Error(`Parser worker exited with code ${code}`));
+                });
+                dispatch(worker);
+                dispatch(worker);
+            }
+        });
+    } finally {
+        await Promise.all(pool.map(worker => worker.terminate()));
+    }
+}
@@ -0,0 +1,543 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getLanguage, hashFile } from './parser';
+import { CodexConfig, loadConfig } from '../config';
+import {
+    aliasConfigChain, findAliasConfig, findPackageImports, matchPathPattern, pickConditionalTarget,
+    PathAliasConfig, PackageImports,
+} from './tsconfig';
+import { loadWorkspace, WorkspacePackage } from './workspace';
+
+export interface ResolverContext {
+    rootDir: string;
+    sourceRoots: string[]; // relative to rootDir, '' is the project root itself
+    includePaths: string[]; // C/C++ header search paths, relative to rootDir
+    importPaths: string[];  // configured directories for bare JS/TS specifiers, relative to rootDir
+    aliasConfigs: Map<string, PathAliasConfig | null>;   // directory -> governing tsconfig/jsconfig
+    packageImports: Map<string, PackageImports | null>;  // directory -> nearest package.json `imports`
+    goModules: Map<string, GoModule | null>;             // directory -> governing go.mod
+    workspace: WorkspacePackage[];                       // npm, Cargo and go.work workspace members
+}
+
+interface GoModule {
+    dir: string;         // relative to rootDir
+    modulePath: string;  // `module` directive, e.g. example.com/app
+    requires: string[];  // required module paths
+}
+
+const DEFAULT_SOURCE_ROOTS = ['', 'src', 'lib'];
+
+function readPyprojectRoots(rootDir: string): string[] {
+    const pyprojectPath = path.join(rootDir, 'pyproject.toml');
+    if (!fs.existsSync(pyprojectPath)) return [];
+
+    const roots: string[] = [];
+    try {
+        const content = fs.readFileSync(pyprojectPath, 'utf-8');
+        // setuptools: where = ["src"]
+        for (const m of content.matchAll(/^\s*where\s*=\s*\[([^\]]*)\]/gm)) {
+            for (const s of m[1].matchAll(/["']([^"']+)["']/g)) roots.push(s[1]);
+        }
+        // poetry: packages = [{ include = "pkg", from = "src" }]
+        for (const m of content.matchAll(/from\s*=\s*["']([^"']+)["']/g)) {
+            roots.push(m[1]);
+        }
+    } catch {
+        // ignore read errors
+    }
+    return roots;
+}
+
+function collectIncludeFlags(args: string[], baseDir: string, out: string[]) {
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        let dir: string | undefined;
+        if (arg === '-I' || arg === '-isystem' || arg === '-iquote') dir = args[++i];
+        else if (arg.startsWith('-I')) dir = arg.slice(2);
+        if (dir) out.push(path.resolve(baseDir, dir));
+    }
+}
+
+/**
+ * Header search paths from the project's compile_flags.txt / compile_commands.json,
+ * plus a top-level `include/` directory when present.
+ */
+function readIncludePaths(rootDir: string): string[] {
+    const absolute: string[] = [path.join(rootDir, 'include')];
+
+    try {
+        const flagsPath = path.join(rootDir, 'compile_flags.txt');
+        if (fs.existsSync(flagsPath)) {
+            const args = fs.readFileSync(flagsPath, 'utf-8').split('\n').map(l => l.trim()).filter(Boolean);
+            collectIncludeFlags(args, rootDir, absolute);
+        }
+
+        const commandsPath = path.join(rootDir, 'compile_commands.json');
+        if (fs.existsSync(commandsPath)) {
+            const commands = JSON.parse(fs.readFileSync(commandsPath, 'utf-8'));
+            for (const entry of Array.isArray(commands) ? commands : []) {
+                const args: string[] = entry.arguments || (typeof entry.command === 'string' ? entry.command.split(/\s+/) : []);
+                collectIncludeFlags(args, entry.directory || rootDir, absolute);
+            }
+        }
+    } catch {
+        // ignore malformed compilation databases
+    }
+
+    const paths: string[] = [];
+    for (const dir of absolute) {
+        const rel = path.relative(rootDir, dir);
+        if (rel.startsWith('..') || paths.includes(rel) || !fs.existsSync(dir)) continue;
+        paths.push(rel);
+    }
+    return paths;
+}
+
+export function loadResolverContext(rootDir: string, config: CodexConfig = loadConfig(rootDir)): ResolverContext {
+    const sourceRoots: string[] = [];
+    for (const root of [...DEFAULT_SOURCE_ROOTS, ...readPyprojectRoots(rootDir), ...config.sourceRoots]) {
+        const normalized = path.normalize(root).replace(/^\.$/, '').replace(/\/$/, '');
+        if (sourceRoots.includes(normalized)) continue;
+        if (normalized && !fs.existsSync(path.join(rootDir, normalized))) continue;
+        sourceRoots.push(normalized);
+    }
+    const importPaths = config.importPaths
+        .map(dir => path.relative(rootDir, path.resolve(rootDir, dir)))
+        .filter(dir => !dir.startsWith('..') && fs.existsSync(path.join(rootDir, dir)));
+    const includePaths = readIncludePaths(rootDir);
+    for (const dir of importPaths) {
+        if (!includePaths.includes(dir)) includePaths.push(dir);
+    }
+    return {
+        rootDir, sourceRoots, includePaths, importPaths,
+        aliasConfigs: new Map(), packageImports: new Map(), goModules: new Map(),
+        workspace: loadWorkspace(rootDir),
+    };
+}
+
+// Files whose contents decide how imports resolve: alias configs, package manifests, build files
+const RESOLVER_INPUT = /^(?:[tj]sconfig(?:\..+)?\.json|package\.json|pnpm-workspace\.yaml|go\.mod|go\.work|pyproject\.toml|Cargo\.toml|compile_commands\.json|compile_flags\.txt)$/;
+
+export function isResolverInput(relPath: string): boolean {
+    return RESOLVER_INPUT.test(path.basename(relPath));
+}
+
+/**
+ * Fingerprint of every resolver input in the directories the index covers, plus configs
+ * outside them that a tsconfig `extends`. Changes when any import may resolve differently.
+ */
+export function hashResolverInputs(rootDir: string, skipDir: (relDir: string) => boolean): string {
+    const inputs = new Set<string>();
+    function walk(relDir: string) {
+        let entries: fs.Dirent[];
+        try {
+            entries = fs.readdirSync(path.join(rootDir, relDir), { withFileTypes: true });
+        } catch {
+            return;
+        }
+        for (const entry of entries) {
+            const relPath = relDir ? path.join(relDir, entry.name) : entry.name;
+            if (entry.isDirectory()) {
+                if (!skipDir(relPath)) walk(relPath);
+            } else if (entry.isFile() && RESOLVER_INPUT.test(entry.name)) {
+                const absPath = path.join(rootDir, relPath);
+                inputs.add(absPath);
+                if (/^[tj]sconfig/.test(entry.name)) aliasConfigChain(rootDir, absPath).forEach(p => inputs.add(p));
+            }
+        }
+    }
+    walk('');
+
+    const parts: string[] = [];
+    for (const file of [...inputs].sort()) {
+        try {
+            parts.push(`${path.relative(rootDir, file)}\0${fs.readFileSync(file, 'utf-8')}`);
+        } catch {
+            // removed meanwhile
+        }
+    }
+    return hashFile(parts.join('\0'));
+}
+
+function fileExists(rootDir: string, rel: string): boolean {
+    try {
+        return fs.statSync(path.join(rootDir, rel)).isFile();
+    } catch {
+        return false;
+    }
+}
+
+function resolvePythonModule(ctx: ResolverContext, fromFile: string, importSource: string): string | null {
+    const match = importSource.match(/^(\.*)(.*)$/)!;
+    const dots = match[1].length;
+    const segments = match[2] ? match[2].split('.') : [];
+
+    let bases: string[];
+    if (dots > 0) {
+        // `.` is the importing file's package, each extra dot climbs one level
+        let base = path.dirname(fromFile);
+        for (let i = 1; i < dots; i++) base = path.dirname(base);
+        bases = [base === '.' ? '' : base];
+    } else {
+        bases = ctx.sourceRoots;
+    }
+
+    for (const base of bases) {
+        const modulePath = path.join(base, ...segments);
+        if (segments.length > 0 && fileExists(ctx.rootDir, modulePath + '.py')) return modulePath + '.py';
+        const initPath = path.join(modulePath, '__init__.py');
+        if (fileExists(ctx.rootDir, initPath)) return initPath;
+    }
+    return null;
+}
+
+/**
+ * Source directory of the crate containing `fromFile`: `src/` next to the nearest Cargo.toml.
+ */
+function findCrateSrc(ctx: ResolverContext, fromFile: string): string {
+    let dir = path.dirname(fromFile);
+    while (true) {
+        const normalized = dir === '.' ? '' : dir;
+        if (fs.existsSync(path.join(ctx.rootDir, normalized, 'Cargo.toml'))) {
+            const src = path.join(normalized, 'src');
+            return fs.existsSync(path.join(ctx.rootDir, src)) ? src : normalized;
+        }
+        if (!normalized) break;
+        dir = path.dirname(dir);
+    }
+    return path.dirname(fromFile) === '.' ? '' : path.dirname(fromFile);
+}
+
+// Directory holding the child modules of the module defined by `file`
+function rustChildDir(file: string): string {
+    const base = path.basename(file);
+    const dir = path.dirname(file) === '.' ? '' : path.dirname(file);
+    if (['mod.rs', 'lib.rs', 'main.rs'].includes(base)) return dir;
+    return path.join(dir, base.replace(/\.rs$/, ''));
+}
+
+// File defining the module whose children live in `dir`
+function rustModuleFile(ctx: ResolverContext, dir: string, crateSrc: string): string | null {
+    const candidates = dir === crateSrc
+        ? [path.join(dir, 'lib.rs'), path.join(dir, 'main.rs')]
+        : [dir + '.rs', path.join(dir, 'mod.rs')];
+    return candidates.find(c => fileExists(ctx.rootDir, c)) || null;
+}
+
+// Workspace member crate a `use` path starts with; `use my_crate::x` names the crate `my-crate`
+function findWorkspaceCrate(ctx: ResolverContext, head: string): WorkspacePackage | null {
+    return ctx.workspace.find(pkg => pkg.kind === 'cargo' && pkg.name.replace(/-/g, '_') === head) || null;
+}
+
+function resolveRustModule(ctx: ResolverContext, fromFile: string, importSource: string): string | null {
+    const segments = importSource.split('::');
+    const member = findWorkspaceCrate(ctx, segments[0]);
+    const crateSrc = member ? findCrateSrc(ctx, path.join(member.dir, 'Cargo.toml')) : findCrateSrc(ctx, fromFile);
+
+    let base = rustChildDir(fromFile);
+    if (segments[0] === 'crate' || member) {
+        base = crateSrc;
+        segments.shift();
+    } else if (segments[0] === 'self') {
+        segments.shift();
+    } else {
+        while (segments[0] === 'super') {
+            base = path.dirname(base) === '.' ? '' : path.dirname(base);
+            segments.shift();
+        }
+    }
+    // Anything else (std::, external crates) only resolves if it names a child module
+
+    if (segments.length === 0) {
+        return base === rustChildDir(fromFile) ? fromFile : rustModuleFile(ctx, base, crateSrc);
+    }
+    return rustModuleFile(ctx, path.join(base, ...segments), crateSrc);
+}
+
+/**
+ * `require` directives of a go.mod, single-line and block form.
+ */
+export function readGoRequires(content: string): { path: string; version: string }[] {
+    const requires: { path: string; version: string }[] = [];
+    const pattern = /^\s*(?:require\s+)?"?([^\s"()]+)"?\s+(v[^\s]+)/;
+    let inBlock = false;
+    for (const line of content.split('\n')) {
+        const trimmed = line.replace(/\/\/.*$/, '').trim();
+        if (/^require\s*\($/.test(trimmed)) {
+            inBlock = true;
+        } else if (inBlock && trimmed === ')') {
+            inBlock = false;
+        } else if (inBlock || trimmed.startsWith('require ')) {
+            const match = trimmed.match(pattern);
+            if (match) requires.push({ path: match[1], version: match[2] });
+        }
+    }
+    return requires;
+}
+
+function findGoModule(ctx: ResolverContext, dir: string): GoModule | null {
+    if (ctx.goModules.has(dir)) return ctx.goModules.get(dir)!;
+
+    let result: GoModule | null = null;
+    const goModPath = path.join(ctx.rootDir, dir, 'go.mod');
+    if (fs.existsSync(goModPath)) {
+        try {
+            const content = fs.readFileSync(goModPath, 'utf-8');
+            const match = content.match(/^\s*module\s+"?([^\s"]+)"?/m);
+            if (match) result = { dir, modulePath: match[1], requires: readGoRequires(content).map(r => r.path) };
+        } catch {
+            // ignore read errors
+        }
+    } else if (dir) {
+        const parent = path.dirname(dir);
+        result = findGoModule(ctx, parent === '.' ? '' : parent);
+    }
+
+    ctx.goModules.set(dir, result);
+    return result;
+}
+
+/**
+ * The project module `importPath` belongs to: the importing file's own module, or another
+ * module of the go.work workspace.
+ */
+function findLocalGoModule(ctx: ResolverContext, fromFile: string, importPath: string): { dir: string; modulePath: string } | null {
+    const fromDir = path.dirname(fromFile);
+    const own = findGoModule(ctx, fromDir === '.' ? '' : fromDir);
+    const modules = [
+        ...(own ? [own] : []),
+        ...ctx.workspace.filter(pkg => pkg.kind === 'go').map(pkg => ({ dir: pkg.dir, modulePath: pkg.name })),
+    ];
+    return modules
+        .filter(m => importPath === m.modulePath || importPath.startsWith(m.modulePath + '/'))
+        .sort((a, b) => b.modulePath.length - a.modulePath.length)[0] ?? null;
+}
+
+/**
+ * Map a Go import path to the files of that package, using the module path from go.mod.
+ * A package is every non-test .go file in the directory.
+ */
+export function resolveGoPackage(ctx: ResolverContext, fromFile: string, importPath: string): string[] {
+    const mod = findLocalGoModule(ctx, fromFile, importPath);
+    if (!mod) return [];
+
+    const pkgDir = path.join(mod.dir, importPath.slice(mod.modulePath.length + 1));
+    try {
+        return fs.readdirSync(path.join(ctx.rootDir, pkgDir), { withFileTypes: true })
+            .filter(e => e.isFile() && e.name.endsWith('.go') && !e.name.endsWith('_test.go'))
+            .map(e => path.join(pkgDir, e.name));
+    } catch {
+        return [];
+    }
+}
+
+// `#include "x.h"` searches the including directory first; `#include <x.h>` only the include paths
+function resolveInclude(ctx: ResolverContext, fromFile: string, importSource: string): string | null {
+    const system = importSource.startsWith('<');
+    const header = system ? importSource.slice(1, -1) : importSource;
+    const fromDir = path.dirname(fromFile);
+    const dirs = system ? ctx.includePaths : [fromDir === '.' ? '' : fromDir, ...ctx.includePaths];
+
+    for (const dir of dirs) {
+        const candidate = path.normalize(path.join(dir, header));
+        if (!candidate.startsWith('..') && fileExists(ctx.rootDir, candidate)) return candidate;
+    }
+    return null;
+}
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.py', '.rs', '.go'];
+const INDEX_FILES = ['index.ts', 'index.tsx', 'index.js', 'index.jsx'];
+
+/**
+ * Find the file an extensionless or extension-mapped specifier points at, relative to rootDir.
+ */
+function probeFile(rootDir: string, absPath: string): string | null {
+    const rel = path.relative(rootDir, absPath);
+    if (rel.startsWith('..')) return null;
+
+    if (fileExists(rootDir, rel)) return rel;
+
+    // Try direct match with extensions
+    for (const ext of SCRIPT_EXTENSIONS) {
+        if (fileExists(rootDir, rel + ext)) return rel + ext;
+    }
+
+    // ESM-style `./foo.js` written against `foo.ts`
+    const jsExt = rel.match(/\.(m?js|jsx)$/);
+    if (jsExt) {
+        const stem = rel.slice(0, -jsExt[0].length);
+        for (const ext of ['.ts', '.tsx', '.mts']) {
+            if (fileExists(rootDir, stem + ext)) return stem + ext;
+        }
+    }
+
+    // Try index files in directory
+    for (const idx of INDEX_FILES) {
+        const candidate = path.join(rel, idx);
+        if (fileExists(rootDir, candidate)) return candidate;
+    }
+
+    return null;
+}
+
+function resolveAlias(ctx: ResolverContext, fromDir: string, importSource: string): string | null {
+    // package.json `imports` subpaths always start with '#'
+    if (importSource.startsWith('#')) {
+        const pkgImports = findPackageImports(ctx.rootDir, fromDir, ctx.packageImports);
+        if (!pkgImports) return null;
+        for (const target of matchPathPattern(pkgImports.imports, importSource)) {
+            const picked = pickConditionalTarget(target);
+            if (!picked || !picked.startsWith('.')) continue;
+            const resolved = probeFile(ctx.rootDir, path.resolve(pkgImports.packageDir, picked));
+            if (resolved) return resolved;
+        }
+        return null;
+    }
+
+    const config = findAliasConfig(ctx.rootDir, fromDir, ctx.aliasConfigs);
+    if (!config) return null;
+
+    const pathsBase = config.baseUrl ?? config.pathsDir;
+    for (const target of matchPathPattern(config.paths, importSource)) {
+        if (typeof target !== 'string') continue;
+        const resolved = probeFile(ctx.rootDir, path.resolve(pathsBase, target));
+        if (resolved) return resolved;
+    }
+
+    if (config.baseUrl) {
+        return probeFile(ctx.rootDir, path.resolve(config.baseUrl, importSource));
+    }
+    return null;
+}
+
+// Built output directories whose files are usually compiled from `src/`
+const BUILD_DIR = /^(?:\.\/)?(?:dist|build|lib|out|esm|cjs)\//;
+
+/**
+ * Resolve an import of a workspace package by name (`@acme/ui`, `@acme/ui/button`) through
+ * its package.json `exports`, or `types`/`module`/`main` for the package itself. Entry points
+ * into build output map back to the source file they're compiled from when one exists.
+ */
+function resolveWorkspaceImport(ctx: ResolverContext, importSource: string): string | null {
+    const pkg = ctx.workspace
+        .filter(p => p.kind === 'npm' && (importSource === p.name || importSource.startsWith(p.name + '/')))
+        .sort((a, b) => b.name.length - a.name.length)[0];
+    if (!pkg) return null;
+
+    const subpath = '.' + importSource.slice(pkg.name.length);
+    const entry = pkg.entry ?? {};
+    let targets: string[];
+    if (entry.exports !== undefined) {
+        // `"exports": "./index.js"` and condition objects are shorthand for the `.` subpath
+        const exportsMap = entry.exports && typeof entry.exports === 'object' && !Array.isArray(entry.exports)
+            && Object.keys(entry.exports).some(key => key.startsWith('.'))
+            ? entry.exports : { '.': entry.exports };
+        targets = matchPathPattern(exportsMap, subpath)
+            .map(pickConditionalTarget)
+            .filter((t): t is string => t !== null);
+    } else if (subpath === '.') {
+        targets = [entry.types, entry.module, entry.main, 'index'].filter((t): t is string => !!t);
+    } else {
+        targets = [subpath];
+    }
+
+    const pkgDir = path.join(ctx.rootDir, pkg.dir);
+    for (const target of targets) {
+        const source = target.replace(BUILD_DIR, 'src/').replace(/\.d\.[mc]?ts$|\.[mc]?js$/, '');
+        for (const candidate of source !== target ? [source, target] : [target]) {
+            const resolved = probeFile(ctx.rootDir, path.resolve(pkgDir, candidate));
+            if (resolved) return resolved;
+        }
+    }
+    return null;
+}
+
+export function resolveImportPath(ctx: ResolverContext, fromFile: string, importSource: string): string | null {
+    const language = getLanguage(fromFile);
+    if (language === 'python') {
+        return resolvePythonModule(ctx, fromFile, importSource);
+    }
+    if (language === 'rust') {
+        return resolveRustModule(ctx, fromFile, importSource);
+    }
+    if (language === 'go') {
+        return resolveGoPackage(ctx, fromFile, importSource)[0] || null;
+    }
+    if (language === 'c' || language === 'cpp') {
+        return resolveInclude(ctx, fromFile, importSource);
+    }
+
+    const fromDir = path.dirname(path.join(ctx.rootDir, fromFile));
+
+    // Non-relative imports are either tsconfig/package.json aliases, workspace packages, configured import paths or external packages
+    if (!importSource.startsWith('.') && !importSource.startsWith('/')) {
+        const aliased = resolveAlias(ctx, fromDir, importSource) ?? resolveWorkspaceImport(ctx, importSource);
+        if (aliased) return aliased;
+        for (const dir of ctx.importPaths) {
+            const resolved = probeFile(ctx.rootDir, path.resolve(ctx.rootDir, dir, importSource));
+            if (resolved) return resolved;
+        }
+        return null;
+    }
+
+    return probeFile(ctx.rootDir, path.resolve(fromDir, importSource));
+}
+
+/**
+ * `from pkg import name` and `use a::b::name` may bind a submodule rather than a symbol.
+ * Returns the module file for `source.name` when one exists.
+ */
+export function resolveSubmodule(ctx: ResolverContext, fromFile: string, source: string, name: string): string | null {
+    const language = getLanguage(fromFile);
+    if (language === 'python') {
+        const dotted = source.endsWith('.') ? source + name : `${source}.${name}`;
+        return resolvePythonModule(ctx, fromFile, dotted);
+    }
+    if (language === 'rust') {
+        return resolveRustModule(ctx, fromFile, `${source}::${name}`);
+    }
+    return null;
+}
+
+// Specifiers that name files of the project rather than packages: package.json `#imports`, common path aliases
+const LOCAL_SPECIFIER = /^(?:[.\/#]|~\/|@\/)/;
+
+/**
+ * The external package an import names when it resolved to no indexed file: an npm package,
+ * a Python top-level module, a crate, a required Go module or a system header. Null for an
+ * import of the project's own files or workspace packages, whose target is then missing.
+ */
+export function externalPackage(ctx: ResolverContext, fromFile: string, source: string): string | null {
+    switch (getLanguage(fromFile)) {
+        case 'python':
+            return source.startsWith('.') ? null : source.split('.')[0];
+        case 'rust': {
+            const head = source.split('::')[0];
+            return ['crate', 'self', 'super'].includes(head) || findWorkspaceCrate(ctx, head) ? null : head;
+        }
+        case 'go': {
+            if (findLocalGoModule(ctx, fromFile, source)) return null;
+            const fromDir = path.dirname(fromFile);
+            const mod = findGoModule(ctx, fromDir === '.' ? '' : fromDir);
+            // The required module the package belongs to; the standard library keeps its package path
+            const required = mod?.requires
+                .filter(r => source === r || source.startsWith(r + '/'))
+                .sort((a, b) => b.length - a.length)[0];
+            return required ?? source;
+        }
+        case 'c':
+        case 'cpp':
+            // Quoted includes are the project's own headers; `<boost/asio.hpp>` belongs to boost
+            return source.startsWith('<') ? source.slice(1, -1).split('/')[0] : null;
+        case 'typescript':
+        case 'tsx':
+        case 'javascript': {
+            if (LOCAL_SPECIFIER.test(source)) return null;
+            const parts = source.replace(/^node:/, '').split('/');
+            const name = parts[0].startsWith('@') && parts.length > 1 ? `${parts[0]}/${parts[1]}` : parts[0];
+            return ctx.workspace.some(pkg => pkg.kind === 'npm' && pkg.name === name) ? null : name;
+        }
+        default:
+            return null;
+    }
+}
@@ -0,0 +1,171 @@
+export interface SignatureParam {
+    name: string;           // as written; destructuring patterns keep their source text
+    type?: string;
+    default?: string;
+    optional?: boolean;
+    rest?: boolean;         // `...args`, `*args`, `**kwargs`, Go `...T`, C `...`
+}
+
+export interface SignatureInfo {
+    params: SignatureParam[];
+    returns?: string;
+    async?: boolean;
+    generator?: boolean;
+    typeParams: string[];   // as written, e.g. `T extends Base`
+}
+
+// Scopes whose `yield`s belong to someone else
+const NESTED_SCOPES = new Set(['function_definition', 'lambda', 'class_definition']);
+
+// `: Foo` → `Foo`
+function typeText(node: any): string | undefined {
+    if (!node) return undefined;
+    return node.text.replace(/^:\s*/, '').replace(/\s+/g, ' ').trim() || undefined;
+}
+
+function param(name: string, fields: Omit<SignatureParam, 'name'>): SignatureParam {
+    const result: SignatureParam = { name };
+    for (const [key, value] of Object.entries(fields)) {
+        if (value !== undefined && value !== false) (result as any)[key] = value;
+    }
+    return result;
+}
+
+// C/C++ declarators wrap the name in pointers/references; the wrappers belong to the type
+function cDeclarator(decl: any): { name: string; prefix: string } {
+    let prefix = '';
+    let cur = decl;
+    while (cur && ['pointer_declarator', 'reference_declarator'].includes(cur.type)) {
+        prefix += cur.type === 'pointer_declarator' ? '*' : '&';
+        cur = cur.childForFieldName('declarator') || cur.namedChildren[cur.namedChildCount - 1];
+    }
+    return { name: cur?.text || '', prefix };
+}
+
+function parseParam(node: any): SignatureParam[] {
+    switch (node.type) {
+        // TypeScript
+        case 'required_parameter':
+        case 'optional_parameter': {
+            const pattern = node.childForFieldName('pattern');
+            const rest = pattern?.type === 'rest_pattern';
+            const value = node.childForFieldName('value');
+            return [param(rest ? pattern.firstNamedChild?.text || pattern.text : pattern?.text || node.text, {
+                type: typeText(node.childForFieldName('type')),
+                default: value?.text,
+                optional: node.type === 'optional_parameter' || !!value,
+                rest,
+            })];
+        }
+        // JavaScript and Python
+        case 'identifier':
+        case 'object_pattern':
+        case 'array_pattern':
+            return [param(node.text, {})];
+        case 'assignment_pattern':
+            return [param(node.childForFieldName('left')?.text || node.text, {
+                default: node.childForFieldName('right')?.text, optional: true,
+            })];
+        case 'rest_pattern':
+            return [param(node.firstNamedChild?.text || node.text, { rest: true })];
+        case 'typed_parameter': {
+            const inner = node.firstNamedChild;
+            const rest = inner?.type === 'list_splat_pattern' || inner?.type === 'dictionary_splat_pattern';
+            return [param(rest ? inner.firstNamedChild?.text || inner.text : inner?.text || node.text, {
+                type: typeText(node.childForFieldName('type')), rest,
+            })];
+        }
+        case 'default_parameter':
+        case 'typed_default_parameter':
+            return [param(node.childForFieldName('name')?.text || node.text, {
+                type: typeText(node.childForFieldName('type')),
+                default: node.childForFieldName('value')?.text,
+                optional: true,
+            })];
+        case 'list_splat_pattern':
+        case 'dictionary_splat_pattern':
+            return [param(node.firstNamedChild?.text || node.text, { rest: true })];
+        // Rust
+        case 'parameter':
+            return [param(node.childForFieldName('pattern')?.text || node.text, { type: typeText(node.childForFieldName('type')) })];
+        case 'self_parameter':
+            return [param(node.text, {})];
+        // Go (`a, b int` declares two), C and C++
+        case 'parameter_declaration':
+        case 'optional_parameter_declaration': {
+            const typeNode = node.childForFieldName('type');
+            const names = node.childrenForFieldName('name');
+            if (names.length > 0) return names.map((n: any) => param(n.text, { type: typeText(typeNode) }));
+            const decl = node.childForFieldName('declarator');
+            const { name, prefix } = decl ? cDeclarator(decl) : { name: '', prefix: '' };
+            const value = node.childForFieldName('default_value');
+            return [param(name, {
+                type: typeNode ? `${typeText(typeNode)}${prefix}` : undefined,
+                default: value?.text,
+                optional: !!value,
+            })];
+        }
+        case 'variadic_parameter_declaration':
+            return [param(node.childForFieldName('name')?.text || '', { type: typeText(node.childForFieldName('type')), rest: true })];
+        case 'variadic_parameter':
+            return [param('...', { rest: true })];
+        default:
+            return [];
+    }
+}
+
+function hasYield(node: any): boolean {
+    for (const child of node.namedChildren) {
+        if (child.type === 'yield') return true;
+        if (!NESTED_SCOPES.has(child.type) && hasYield(child)) return true;
+    }
+    return false;
+}
+
+/**
+ * Structured parameters, return type, async/generator flags and generics of a function
+ * or method node. C/C++ definitions and prototypes are read through their declarators.
+ */
+export function parseSignature(node: any): SignatureInfo {
+    let paramsNode = node.childForFieldName('parameters');
+    let returns = typeText(node.childForFieldName('return_type') || node.childForFieldName('result'));
+    let typeParamsNode = node.childForFieldName('type_parameters');
+
+    // C/C++: `char *f(int a)` is a declarator chain ending in a function_declarator
+    const declarator = node.childForFieldName('declarator');
+    if (!paramsNode && declarator) {
+        let prefix = '';
+        let cur = declarator;
+        while (cur && cur.type !== 'function_declarator') {
+            if (cur.type === 'pointer_declarator') prefix += '*';
+            if (cur.type === 'reference_declarator') prefix += '&';
+            cur = cur.childForFieldName('declarator') || cur.namedChildren[cur.namedChildCount - 1];
+        }
+        paramsNode = cur?.childForFieldName('parameters');
+        // `const char *f()`: qualifiers and the type come before the declarator
+        const typeParts = node.namedChildren.filter((c: any) => c.type === 'type_qualifier' || c === node.childForFieldName('type'));
+        if (typeParts.length > 0) returns = `${typeParts.map(typeText).join(' ')}${prefix}`;
+        if (node.parent?.type === 'template_declaration') typeParamsNode = node.parent.childForFieldName('parameters');
+    }
+
+    // An arrow function's single unparenthesized parameter
+    const single = node.childForFieldName('parameter');
+    // C++ spells a trailing `...` as a bare token
+    const params: SignatureParam[] = single ? parseParam(single) : (paramsNode?.children || [])
+        .flatMap((c: any) => c.type === '...' ? [param('...', { rest: true })] : c.isNamed ? parseParam(c) : []);
+    const info: SignatureInfo = {
+        params: params.filter(p => p.name || p.type !== 'void'), // C `f(void)`
+        typeParams: (typeParamsNode?.namedChildren || []).map((t: any) => t.text.replace(/\s+/g, ' ')),
+    };
+
+    const modifiers = node.namedChildren.find((c: any) => c.type === 'function_modifiers');
+    const isAsync = node.children.some((c: any) => c.type === 'async') || /\basync\b/.test(modifiers?.text || '');
+    const body = node.childForFieldName('body');
+    const generator = node.type.includes('generator') || node.children.some((c: any) => c.type === '*') ||
+        (node.type === 'function_definition' && !!body && body.type === 'block' && hasYield(body));
+
+    if (returns) info.returns = returns;
+    if (isAsync) info.async = true;
+    if (generator) info.generator = true;
+    return info;
+}
@@ -0,0 +1,190 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseJsonc } from '../utils';
+
+export interface PathAliasConfig {
+    baseUrl: string | null;          // absolute directory, or null when not set
+    pathsDir: string;                // absolute directory of the config that declared `paths`
+    paths: Record<string, string[]>;
+}
+
+export interface PackageImports {
+    packageDir: string;              // absolute directory of the declaring package.json
+    imports: Record<string, any>;
+}
+
+const CONFIG_NAMES = ['tsconfig.json', 'jsconfig.json'];
+const IMPORT_CONDITIONS = ['types', 'import', 'require', 'node', 'default'];
+
+function readJsonc(filePath: string): any | null {
+    try {
+        return parseJsonc(fs.readFileSync(filePath, 'utf-8'));
+    } catch {
+        return null;
+    }
+}
+
+function resolveExtends(rootDir: string, configDir: string, spec: string): string | null {
+    const candidates: string[] = [];
+    if (spec.startsWith('.') || path.isAbsolute(spec)) {
+        const base = path.resolve(configDir, spec);
+        candidates.push(base, base + '.json');
+    } else {
+        // Shared configs from node_modules, e.g. "@tsconfig/node20/tsconfig.json"
+        for (let dir = configDir; ; dir = path.dirname(dir)) {
+            const base = path.join(dir, 'node_modules', spec);
+            candidates.push(base, base + '.json', path.join(base, 'tsconfig.json'));
+            if (dir === rootDir || dir === path.dirname(dir)) break;
+        }
+    }
+    return candidates.find(c => fs.existsSync(c) && fs.statSync(c).isFile()) || null;
+}
+
+/**
+ * Load `baseUrl`/`paths` from a tsconfig or jsconfig, following its `extends` chain.
+ * Options from the extending config win. `paths` targets are relative to `baseUrl` when
+ * one is set, otherwise to the config that declared them.
+ */
+function loadAliasConfig(rootDir: string, configPath: string, seen: Set<string> = new Set()): PathAliasConfig | null {
+    if (seen.has(configPath)) return null;
+    seen.add(configPath);
+
+    const config = readJsonc(configPath);
+    if (!config) return null;
+
+    const configDir = path.dirname(configPath);
+    let result: PathAliasConfig = { baseUrl: null, pathsDir: configDir, paths: {} };
+
+    const parents = Array.isArray(config.extends) ? config.extends : config.extends ? [config.extends] : [];
+    for (const spec of parents) {
+        if (typeof spec !== 'string') continue;
+        const parentPath = resolveExtends(rootDir, configDir, spec);
+        const parent = parentPath ? loadAliasConfig(rootDir, parentPath, seen) : null;
+        if (parent) result = parent;
+    }
+
+    const options = config.compilerOptions || {};
+    if (typeof options.baseUrl === 'string') {
+        result = { ...result, baseUrl: path.resolve(configDir, options.baseUrl) };
+    }
+    if (options.paths && typeof options.paths === 'object') {
+        result = { ...result, paths: options.paths, pathsDir: configDir };
+    }
+    return result;
+}
+
+/**
+ * A tsconfig/jsconfig and every config its `extends` chain reads, as absolute paths.
+ */
+export function aliasConfigChain(rootDir: string, configPath: string): string[] {
+    const seen = new Set<string>();
+    loadAliasConfig(rootDir, configPath, seen);
+    return [...seen];
+}
+
+/**
+ * Nearest tsconfig.json/jsconfig.json governing `dir`, searched upward to the project root.
+ */
+export function findAliasConfig(
+    rootDir: string,
+    dir: string,
+    cache: Map<string, PathAliasConfig | null>
+): PathAliasConfig | null {
+    if (cache.has(dir)) return cache.get(dir)!;
+
+    let result: PathAliasConfig | null = null;
+    const configPath = CONFIG_NAMES.map(n => path.join(dir, n)).find(p => fs.existsSync(p));
+    if (configPath) {
+        result = loadAliasConfig(rootDir, configPath);
+    } else if (dir !== rootDir && dir !== path.dirname(dir)) {
+        result = findAliasConfig(rootDir, path.dirname(dir), cache);
+    }
+
+    cache.set(dir, result);
+    return result;
+}
+
+/**
+ * Nearest package.json with an `imports` field (`#internal/*` subpath patterns).
+ */
+export function findPackageImports(
+    rootDir: string,
+    dir: string,
+    cache: Map<string, PackageImports | null>
+): PackageImports | null {
+    if (cache.has(dir)) return cache.get(dir)!;
+
+    let result: PackageImports | null = null;
+    const pkgPath = path.join(dir, 'package.json');
+    const pkg = fs.existsSync(pkgPath) ? readJsonc(pkgPath) : null;
+    if (pkg) {
+        // The nearest package.json is the package boundary, even without `imports`
+        result = pkg.imports && typeof pkg.imports === 'object' ? { packageDir: dir, imports: pkg.imports } : null;
+    } else if (dir !== rootDir && dir !== path.dirname(dir)) {
+        result = findPackageImports(rootDir, path.dirname(dir), cache);
+    }
+
+    cache.set(dir, result);
+    return result;
+}
+
+/**
+ * Match `specifier` against `paths`-style patterns (at most one `*`). Exact keys win,
+ * then the longest matching prefix. Returns the substituted targets.
+ */
+export function matchPathPattern(patterns: Record<string, any>, specifier: string): any[] {
+    if (specifier in patterns) {
+        const target = patterns[specifier];
+        return Array.isArray(target) ? target : [target];
+    }
+
+    let best: { prefix: string; suffix: string; target: any } | null = null;
+    for (const [pattern, target] of Object.entries(patterns)) {
+        const star = pattern.indexOf('*');
+        if (star === -1) continue;
+        const prefix = pattern.slice(0, star);
+        const suffix = pattern.slice(star + 1);
+        if (specifier.length < prefix.length + suffix.length) continue;
+        if (!specifier.startsWith(prefix) || !specifier.endsWith(suffix)) continue;
+        if (!best || prefix.length > best.prefix.length) best = { prefix, suffix, target };
+    }
+    if (!best) return [];
+
+    const captured = specifier.slice(best.prefix.length, specifier.length - best.suffix.length);
+    const targets = Array.isArray(best.target) ? best.target : [best.target];
+    return targets.map(t => substitute(t, captured));
+}
+
+function substitute(target: any, captured: string): any {
+    if (typeof target === 'string') return target.replace(/\*/g, captured);
+    if (target && typeof target === 'object') {
+        const out: Record<string, any> = {};
+        for (const [k, v] of Object.entries(target)) out[k] = substitute(v, captured);
+        return out;
+    }
+    return target;
+}
+
+/**
+ * Pick a file path out of a package.json `imports`/`exports` target, which may be
+ * nested condition objects or fallback arrays.
+ */
+export function pickConditionalTarget(target: any): string | null {
+    if (typeof target === 'string') return target;
+    if (Array.isArray(target)) {
+        for (const t of target) {
+            const picked = pickConditionalTarget(t);
+            if (picked) return picked;
+        }
+        return null;
+    }
+    if (target && typeof target === 'object') {
+        for (const cond of IMPORT_CONDITIONS) {
+            if (cond in target) {
+                const picked = pickConditionalTarget(target[cond]);
+                if (picked) return picked;
+            }
+        }
+    }
+    return null;
+}
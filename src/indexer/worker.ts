@@ -0,0 +1,10 @@
+import { parentPort, workerData } from 'worker_threads';
+import { parseTask, ParseTask } from './pool';
+import { ContentLimits } from '../config';
+
+// Parser thread: reads, hashes and parses batches of files; the main thread writes the results
+const { rootDir, limits } = workerData as { rootDir: string; limits: ContentLimits };
+
+parentPort!.on('message', (batch: ParseTask[]) => {
+    parentPort!.postMessage({ batch, results: batch.map(task => parseTask(rootDir, task, limits)) });
+});
@@ -0,0 +1,176 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { globToRegExp, parseJsonc } from '../utils';
+import { readTomlEntries } from './packages';
+
+export interface WorkspacePackage {
+    name: string;           // package.json `name`, crate name or Go module path
+    dir: string;            // relative to the project root
+    kind: 'npm' | 'cargo' | 'go';
+    entry?: {               // npm: where importing the package by name leads
+        exports?: any;
+        types?: string;
+        module?: string;
+        main?: string;
+    };
+}
+
+// Directories never holding workspace members
+const SKIP_MEMBER_DIRS = new Set(['node_modules', 'target', 'dist', 'build', 'vendor']);
+const MAX_MEMBER_DEPTH = 8;
+
+function readText(file: string): string | null {
+    try {
+        return fs.readFileSync(file, 'utf-8');
+    } catch {
+        return null;
+    }
+}
+
+function readJson(file: string): any | null {
+    const content = readText(file);
+    if (content === null) return null;
+    try {
+        return parseJsonc(content);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Directories matching member globs such as `packages/*`, `apps/**` or `crates/core`, minus
+ * `!`-prefixed exclusions and `exclude`. Only directories holding `manifest` count.
+ */
+function expandMembers(rootDir: string, patterns: string[], manifest: string, exclude: string[] = []): string[] {
+    const anchor = (glob: string) => globToRegExp('/' + glob.replace(/^\.\//, '').replace(/^\//, ''));
+    const include = patterns.filter(p => !p.startsWith('!')).map(anchor);
+    const skip = [...patterns.filter(p => p.startsWith('!')).map(p => p.slice(1)), ...exclude].map(anchor);
+    const depth = patterns.some(p => p.includes('**'))
+        ? MAX_MEMBER_DEPTH
+        : Math.max(0, ...patterns.map(p => p.replace(/^\.\//, '').split('/').filter(Boolean).length));
+
+    const members: string[] = [];
+    function walk(dir: string, level: number) {
+        if (dir && include.some(re => re.test(dir)) && !skip.some(re => re.test(dir))
+            && fs.existsSync(path.join(rootDir, dir, manifest))) {
+            members.push(dir);
+        }
+        if (level >= depth) return;
+        let entries: fs.Dirent[];
+        try {
+            entries = fs.readdirSync(path.join(rootDir, dir), { withFileTypes: true });
+        } catch {
+            return;
+        }
+        for (const entry of entries) {
+            if (!entry.isDirectory() || entry.name.startsWith('.') || SKIP_MEMBER_DIRS.has(entry.name)) continue;
+            walk(dir ? path.join(dir, entry.name) : entry.name, level + 1);
+        }
+    }
+    walk('', 0);
+    return members.sort();
+}
+
+// npm and yarn `workspaces` (a list, or `{ packages }`), then pnpm-workspace.yaml `packages`
+function npmMemberGlobs(rootDir: string): string[] {
+    const workspaces = readJson(path.join(rootDir, 'package.json'))?.workspaces;
+    const globs: string[] = Array.isArray(workspaces) ? workspaces
+        : Array.isArray(workspaces?.packages) ? workspaces.packages : [];
+
+    const pnpm = readText(path.join(rootDir, 'pnpm-workspace.yaml'));
+    if (pnpm) {
+        let inPackages = false;
+        for (const line of pnpm.split('\n')) {
+            if (/^packages\s*:/.test(line)) {
+                inPackages = true;
+            } else if (inPackages) {
+                const item = line.match(/^\s*-\s*["']?([^"'#]+?)["']?\s*(?:#.*)?$/);
+                if (item) globs.push(item[1]);
+                else if (/^\S/.test(line)) inPackages = false;
+            }
+        }
+    }
+    return globs.filter(glob => typeof glob === 'string');
+}
+
+function npmPackages(rootDir: string): WorkspacePackage[] {
+    const globs = npmMemberGlobs(rootDir);
+    if (globs.length === 0) return [];
+    const packages: WorkspacePackage[] = [];
+    for (const dir of expandMembers(rootDir, globs, 'package.json')) {
+        const pkg = readJson(path.join(rootDir, dir, 'package.json'));
+        if (typeof pkg?.name !== 'string') continue;
+        const entry: WorkspacePackage['entry'] = {};
+        if (pkg.exports !== undefined) entry.exports = pkg.exports;
+        for (const field of ['types', 'typings', 'module', 'main']) {
+            const key = field === 'typings' ? 'types' : field as 'types' | 'module' | 'main';
+            if (typeof pkg[field] === 'string' && !entry[key]) entry[key] = pkg[field];
+        }
+        packages.push({ name: pkg.name, dir, kind: 'npm', entry });
+    }
+    return packages;
+}
+
+function cargoPackages(rootDir: string): WorkspacePackage[] {
+    const content = readText(path.join(rootDir, 'Cargo.toml'));
+    if (!content) return [];
+    const list = (value: string) => [...value.matchAll(/"([^"]+)"/g)].map(m => m[1]);
+    let members: string[] = [];
+    let exclude: string[] = [];
+    for (const { section, key, value } of readTomlEntries(content)) {
+        if (section !== 'workspace') continue;
+        if (key === 'members') members = list(value);
+        else if (key === 'exclude') exclude = list(value);
+    }
+
+    const packages: WorkspacePackage[] = [];
+    for (const dir of expandMembers(rootDir, members, 'Cargo.toml', exclude)) {
+        const manifest = readText(path.join(rootDir, dir, 'Cargo.toml')) ?? '';
+        const name = readTomlEntries(manifest).find(e => e.section === 'package' && e.key === 'name');
+        const match = name?.value.match(/^"([^"]+)"/);
+        if (match) packages.push({ name: match[1], dir, kind: 'cargo' });
+    }
+    return packages;
+}
+
+// go.work `use ./a` and `use ( ./a ./b )`
+function goPackages(rootDir: string): WorkspacePackage[] {
+    const content = readText(path.join(rootDir, 'go.work'));
+    if (!content) return [];
+    const dirs: string[] = [];
+    let inBlock = false;
+    for (const line of content.split('\n')) {
+        const trimmed = line.replace(/\/\/.*$/, '').trim();
+        if (/^use\s*\($/.test(trimmed)) inBlock = true;
+        else if (inBlock && trimmed === ')') inBlock = false;
+        else if (inBlock && trimmed) dirs.push(trimmed);
+        else if (trimmed.startsWith('use ')) dirs.push(trimmed.slice(4).trim());
+    }
+
+    const packages: WorkspacePackage[] = [];
+    for (const use of dirs) {
+        const dir = path.normalize(use.replace(/^"|"$/g, '')).replace(/^\.$/, '');
+        if (dir.startsWith('..')) continue;
+        const match = readText(path.join(rootDir, dir, 'go.mod'))?.match(/^\s*module\s+"?([^\s"]+)"?/m);
+        if (match) packages.push({ name: match[1], dir, kind: 'go' });
+    }
+    return packages;
+}
+
+/**
+ * The project's workspace packages: npm/yarn `workspaces`, pnpm-workspace.yaml, Cargo
+ * `[workspace] members` and go.work `use` directives. Empty for a single-package project.
+ */
+export function loadWorkspace(rootDir: string): WorkspacePackage[] {
+    return [...npmPackages(rootDir), ...cargoPackages(rootDir), ...goPackages(rootDir)];
+}
+
+// The workspace package `relPath` belongs to: the one with the deepest directory containing it
+export function findWorkspacePackage(packages: WorkspacePackage[], relPath: string): WorkspacePackage | null {
+    let best: WorkspacePackage | null = null;
+    for (const pkg of packages) {
+        const inside = !pkg.dir || relPath === pkg.dir || relPath.startsWith(pkg.dir + path.sep);
+        if (inside && (!best || pkg.dir.length > best.dir.length)) best = pkg;
+    }
+    return best;
+}
@@ -1,5 +1,12 @@
 import Database from 'better-sqlite3';
-import { openDatabase } from '../db/schema';
+import * as fs from 'fs';
+import * as path from 'path';
+import { openDatabase, getMeta } from '../db/schema';
+import { collectFiles } from '../indexer/collector';
+import { readDeclaredPackages, normalizePackageName } from '../indexer/packages';
+import { findWorkspacePackage, WorkspacePackage } from '../indexer/workspace';
+import { StructuredDoc } from '../indexer/docstring';
+import { SignatureInfo, SignatureParam } from '../indexer/signature';
 
 // Result types
 export interface SearchResult {
@@ -12,6 +19,7 @@ export interface SearchResult {
     signature: string | null;
     pagerank: number;
     snippet?: string;
+    relation?: string;  // edge kind when listed as a dependency/dependent, e.g. 'calls', 'uses_type'
 }
 
 export interface ContextResult {
@@ -23,7 +31,10 @@ export interface ContextResult {
         lineStart: number;
         lineEnd: number;
         signature: string | null;
+        signatureInfo: SignatureInfo | null;  // params, return type, async/generator, generics
         docstring: string | null;
+        doc: StructuredDoc | null;  // summary, params, returns, throws, deprecated, examples
+        deprecated: boolean;
         code: string | null;
     };
     dependencies: SearchResult[];
@@ -31,6 +42,69 @@ export interface ContextResult {
     sameFileSymbols: SearchResult[];
 }
 
+export interface HierarchyEntry extends SearchResult {
+    depth: number;
+    relation: string; // 'extends' or 'implements'
+}
+
+export interface TypeHierarchyResult {
+    symbol: SearchResult;
+    supertypes: HierarchyEntry[];
+    subtypes: HierarchyEntry[];
+}
+
+export interface ReferenceResult {
+    symbol: string;         // qualified name of the referenced symbol
+    file: string;
+    line: number;
+    column: number;
+    kind: string;           // 'call', 'import', 'reexport', 'type_use', 'extends', 'implements', 'instantiates'
+    from: string | null;    // enclosing symbol at the reference site
+    text: string;           // source line, trimmed
+}
+
+export interface RenameEdit {
+    file: string;
+    line: number;
+    column: number;         // 1-based, in the file as it is now
+    kind: string;           // 'definition', 'declaration', an occurrence kind, or 'textual'
+    oldText: string;
+    newText: string;
+    text: string;           // source line, trimmed
+}
+
+export interface RenameCollision {
+    file: string;
+    line: number;
+    name: string;
+    kind: string;
+    reason: 'declared' | 'referenced';  // a symbol of the new name is defined in / used by the file
+}
+
+export interface RenamePlan {
+    symbol: { name: string; qualifiedName: string | null; kind: string; file: string; line: number };
+    newName: string;
+    edits: RenameEdit[];            // index-verified, ordered by file then position
+    textual: RenameEdit[];          // textual, unverified: word matches in docs, strings, comments, tests
+    collisions: RenameCollision[];
+}
+
+export interface SignatureResult {
+    name: string;
+    qualifiedName: string | null;
+    kind: string;
+    file: string;
+    line: number;
+    signature: string | null;
+    params: SignatureParam[];
+    returns?: string;
+    async?: boolean;
+    generator?: boolean;
+    typeParams: string[];
+    summary?: string;       // first paragraph of the doc comment
+    deprecated?: boolean;
+}
+
 export interface ImpactResult {
     file: string;
     depth: number;
@@ -38,19 +112,63 @@ export interface ImpactResult {
 }
 
 export interface ModuleResult {
-    name: string;
+    name: string;               // workspace package name, or top-level directory
+    dir: string;                // '.' for files at the project root
+    kind: 'directory' | WorkspacePackage['kind'];
     fileCount: number;
     symbolCount: number;
     importsFrom: string[];
 }
 
+export interface PackageGraph {
+    packages: { name: string; dir: string; kind: WorkspacePackage['kind']; fileCount: number }[];
+    dependencies: { from: string; to: string; imports: number }[];    // file-level imports between the two
+}
+
+export interface PackageSummary {
+    name: string;
+    version: string | null;     // as declared; null for the standard library and undeclared packages
+    manifest: string | null;
+    files: number;              // files importing it
+    uses: number;               // calls, type uses and other references through those imports
+    names: string[];            // most used names first
+}
+
+export interface PackageUse {
+    file: string;
+    line: number | null;
+    column: number | null;
+    kind: string;               // 'import', or the reference kind, e.g. 'calls'
+    name: string;               // imported or used name, e.g. 'create' for axios.create()
+    from: string | null;        // enclosing symbol
+    text: string;               // source line, trimmed
+}
+
+export interface PackageUsage {
+    name: string;
+    version: string | null;
+    manifest: string | null;
+    files: string[];
+    uses: PackageUse[];         // imports first, then references, ordered by file and line
+}
+
+export interface BrokenImport {
+    file: string;
+    line: number | null;
+    source: string;             // local specifier that resolves to no indexed file
+}
+
 export interface Stats {
     files: number;
+    generatedFiles: number;
     symbols: number;
     edges: number;
     fileDeps: number;
 }
 
+// Rank multiplier for symbols in generated, minified or vendored files
+const GENERATED_WEIGHT = 0.1;
+
 // FTS5 query sanitizer
 function sanitizeFts(query: string): string {
     const tokens = query.replace(/[^\w\s]/g, ' ').trim().split(/\s+/).filter(Boolean);
@@ -60,7 +178,13 @@ function sanitizeFts(query: string): string {
 
 // --- DB-direct functions (for MCP server hot path) ---
 
-export function search(db: Database.Database, query: string, limit: number = 15): SearchResult[] {
+export function search(
+    db: Database.Database,
+    query: string,
+    limit: number = 15,
+    excludeDeprecated: boolean = false,
+    includeGenerated: boolean = false    // rank generated files like any other
+): SearchResult[] {
     const ftsQuery = sanitizeFts(query);
     if (!ftsQuery) return [];
 
@@ -74,10 +198,12 @@ export function search(db: Database.Database, query: string, limit: number = 15)
         JOIN files f ON f.id = s.file_id
         LEFT JOIN rankings r ON r.symbol_id = s.id
         WHERE symbols_fts MATCH ?
-        ORDER BY r.pagerank DESC, fts.rank
+          AND (? = 0 OR s.deprecated = 0)
+        ORDER BY COALESCE(r.pagerank, 0) * (CASE WHEN f.generated IS NULL THEN 1 ELSE ? END) DESC, fts.rank
         LIMIT ?
     `);
-    return stmt.all(ftsQuery, limit) as SearchResult[];
+    const weight = includeGenerated ? 1 : GENERATED_WEIGHT;
+    return stmt.all(ftsQuery, excludeDeprecated ? 1 : 0, weight, limit) as SearchResult[];
 }
 
 export function getCallers(db: Database.Database, symbolName: string): SearchResult[] {
@@ -91,18 +217,234 @@ export function getCallers(db: Database.Database, symbolName: string): SearchRes
         JOIN files f ON f.id = s.file_id
         LEFT JOIN rankings r ON r.symbol_id = s.id
         WHERE (target.name = ? OR target.qualified_name = ?)
-          AND e.kind IN ('calls', 'references')
+          AND e.kind IN ('calls', 'references', 'instantiates')
         ORDER BY r.pagerank DESC
     `);
     return stmt.all(symbolName, symbolName) as SearchResult[];
 }
 
+/**
+ * Every recorded reference to a symbol with its exact position. Line text is read from
+ * the working tree, so it reflects the file as it is now.
+ */
+export function findReferences(
+    db: Database.Database,
+    rootDir: string,
+    symbolName: string,
+    kind?: string,
+    limit: number = 200
+): ReferenceResult[] {
+    const rows = db.prepare(`
+        SELECT COALESCE(target.qualified_name, target.name) as symbol, f.path as file,
+               o.line, o.col as column, o.kind,
+               COALESCE(src.qualified_name, src.name) as "from"
+        FROM occurrences o
+        JOIN symbols target ON target.id = o.symbol_id
+        JOIN files f ON f.id = o.file_id
+        LEFT JOIN symbols src ON src.id = o.from_id
+        WHERE (target.name = ? OR target.qualified_name = ?)
+          AND (? IS NULL OR o.kind = ?)
+        ORDER BY f.path, o.line, o.col
+        LIMIT ?
+    `).all(symbolName, symbolName, kind ?? null, kind ?? null, limit) as Omit<ReferenceResult, 'text'>[];
+
+    const fileLines = new Map<string, string[]>();
+    return rows.map(row => {
+        const text = readLines(rootDir, row.file, fileLines)[row.line - 1]?.trim().slice(0, 200) || '';
+        return { ...row, text };
+    });
+}
+
+function readLines(rootDir: string, file: string, cache: Map<string, string[]>): string[] {
+    if (!cache.has(file)) {
+        try {
+            cache.set(file, fs.readFileSync(path.join(rootDir, file), 'utf-8').split('\n'));
+        } catch {
+            cache.set(file, []);
+        }
+    }
+    return cache.get(file)!;
+}
+
+function wordPattern(name: string): RegExp {
+    return new RegExp(`(?<![\\w$])${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![\\w$])`, 'g');
+}
+
+const DOC_EXTENSIONS = new Set(['.md', '.mdx', '.rst', '.txt']);
+
+/**
+ * Plan renaming a symbol to `newName`: its definition (and C/C++ prototypes), every
+ * indexed occurrence whose text still reads as the old name, and leftover word matches
+ * in docs and source flagged as textual. Aliased imports (`import { a as b }`) only need
+ * the specifier edited, so uses of the alias are left alone.
+ */
+export function planRename(
+    db: Database.Database,
+    rootDir: string,
+    symbolName: string,
+    newName: string,
+    file?: string,
+    textualLimit: number = 200
+): RenamePlan | null {
+    if (!/^[A-Za-z_$][\w$]*$/.test(newName)) {
+        throw new Error(`'${newName}' is not a valid identifier`);
+    }
+    const sym = db.prepare(`
+        SELECT s.id, s.name, s.qualified_name, s.kind, f.path as file, s.line_start, s.line_end
+        FROM symbols s
+        JOIN files f ON f.id = s.file_id
+        LEFT JOIN rankings r ON r.symbol_id = s.id
+        WHERE (s.name = ? OR s.qualified_name = ?) AND (? IS NULL OR f.path = ?)
+        ORDER BY s.exported DESC, COALESCE(r.pagerank, 0) DESC
+        LIMIT 1
+    `).get(symbolName, symbolName, file ?? null, file ?? null) as any;
+    if (!sym) return null;
+
+    const oldName: string = sym.name;
+    const fileLines = new Map<string, string[]>();
+    const edits: RenameEdit[] = [];
+    const covered = new Set<string>();
+
+    const addEdit = (file: string, line: number, column: number, kind: string) => {
+        const key = `${file}:${line}:${column}`;
+        const lineText = readLines(rootDir, file, fileLines)[line - 1];
+        if (covered.has(key) || lineText === undefined) return;
+        // Index columns are 1-based UTF-16 offsets (tree-sitter), the same as string indexes
+        const index = column - 1;
+        if (lineText.slice(index, index + oldName.length) !== oldName) return;
+        covered.add(key);
+        edits.push({ file, line, column, kind, oldText: oldName, newText: newName, text: lineText.trim().slice(0, 200) });
+    };
+
+    // Definition sites: the symbol and any prototypes linked to it with `declares` edges
+    const definitions = [
+        { ...sym, kind: 'definition' },
+        ...(db.prepare(`
+            SELECT s.id, f.path as file, s.line_start, s.line_end, 'declaration' as kind
+            FROM edges e
+            JOIN symbols s ON s.id = e.from_id
+            JOIN files f ON f.id = s.file_id
+            WHERE e.to_id = ? AND e.kind = 'declares'
+        `).all(sym.id) as any[]),
+    ];
+    for (const def of definitions) {
+        const lines = readLines(rootDir, def.file, fileLines);
+        for (let line = def.line_start; line <= def.line_end; line++) {
+            const match = wordPattern(oldName).exec(lines[line - 1] || '');
+            if (match) {
+                addEdit(def.file, line, match.index + 1, def.kind);
+                break;
+            }
+        }
+    }
+
+    const occurrences = db.prepare(`
+        SELECT f.path as file, o.line, o.col as column, o.kind
+        FROM occurrences o
+        JOIN files f ON f.id = o.file_id
+        WHERE o.symbol_id IN (${definitions.map(d => d.id).join(',')})
+    `).all() as { file: string; line: number; column: number; kind: string }[];
+    for (const occ of occurrences) addEdit(occ.file, occ.line, occ.column, occ.kind);
+
+    edits.sort((a, b) =>
+        a.file === sym.file && b.file !== sym.file ? -1
+        : b.file === sym.file && a.file !== sym.file ? 1
+        : a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column);
+
+    // Word matches the index does not account for: docs, strings, comments, dynamic uses
+    const textual: RenameEdit[] = [];
+    const indexedFiles = (db.prepare('SELECT path FROM files ORDER BY path').all() as { path: string }[]).map(f => f.path);
+    for (const file of [...indexedFiles, ...collectFiles(rootDir, DOC_EXTENSIONS)]) {
+        if (textual.length >= textualLimit) break;
+        const lines = readLines(rootDir, file, fileLines);
+        for (let i = 0; i < lines.length && textual.length < textualLimit; i++) {
+            for (const match of lines[i].matchAll(wordPattern(oldName))) {
+                const column = match.index! + 1;
+                if (covered.has(`${file}:${i + 1}:${column}`)) continue;
+                textual.push({
+                    file, line: i + 1, column, kind: 'textual',
+                    oldText: oldName, newText: newName, text: lines[i].trim().slice(0, 200),
+                });
+            }
+        }
+        // Only source lines that were read for edits need to stay cached
+        if (!edits.some(e => e.file === file)) fileLines.delete(file);
+    }
+
+    // Collisions: members clash within their owner, top-level names within each affected file
+    const affectedFiles = [...new Set([sym.file, ...edits.map(e => e.file)])];
+    const placeholders = affectedFiles.map(() => '?').join(',');
+    const qualified: string | null = sym.qualified_name;
+    const sep = qualified?.includes('::') ? '::' : '.';
+    const collisions: RenameCollision[] = qualified
+        ? db.prepare(`
+            SELECT f.path as file, s.line_start as line, COALESCE(s.qualified_name, s.name) as name, s.kind, 'declared' as reason
+            FROM symbols s JOIN files f ON f.id = s.file_id
+            WHERE s.qualified_name = ?
+        `).all(qualified.slice(0, qualified.lastIndexOf(sep) + sep.length) + newName) as RenameCollision[]
+        : [
+            ...db.prepare(`
+                SELECT f.path as file, s.line_start as line, s.name, s.kind, 'declared' as reason
+                FROM symbols s JOIN files f ON f.id = s.file_id
+                WHERE s.name = ? AND s.qualified_name IS NULL AND f.path IN (${placeholders})
+            `).all(newName, ...affectedFiles) as RenameCollision[],
+            ...db.prepare(`
+                SELECT DISTINCT f.path as file, o.line, s.name, o.kind, 'referenced' as reason
+                FROM occurrences o
+                JOIN symbols s ON s.id = o.symbol_id
+                JOIN files f ON f.id = o.file_id
+                WHERE s.name = ? AND s.qualified_name IS NULL AND f.path IN (${placeholders})
+            `).all(newName, ...affectedFiles) as RenameCollision[],
+        ];
+
+    return {
+        symbol: { name: sym.name, qualifiedName: sym.qualified_name, kind: sym.kind, file: sym.file, line: sym.line_start },
+        newName,
+        edits,
+        textual,
+        collisions,
+    };
+}
+
+/**
+ * Declaration headers of every symbol with this name, with parsed parameters and return
+ * type but no code: a cheap way to see how to call something.
+ */
+export function getSignatures(db: Database.Database, symbolName: string, limit: number = 10): SignatureResult[] {
+    const rows = db.prepare(`
+        SELECT s.name, s.qualified_name, s.kind, f.path as file, s.line_start, s.signature,
+               s.signature_info, s.doc, s.deprecated
+        FROM symbols s
+        JOIN files f ON f.id = s.file_id
+        LEFT JOIN rankings r ON r.symbol_id = s.id
+        WHERE (s.name = ? OR s.qualified_name = ?) AND s.kind != 'reexport'
+        ORDER BY s.exported DESC, COALESCE(r.pagerank, 0) DESC
+        LIMIT ?
+    `).all(symbolName, symbolName, limit) as any[];
+
+    return rows.map(row => {
+        const info: SignatureInfo = row.signature_info ? JSON.parse(row.signature_info) : { params: [], typeParams: [] };
+        const doc: StructuredDoc | null = row.doc ? JSON.parse(row.doc) : null;
+        return {
+            name: row.name,
+            qualifiedName: row.qualified_name,
+            kind: row.kind,
+            file: row.file,
+            line: row.line_start,
+            signature: row.signature,
+            ...info,
+            ...(doc?.summary ? { summary: doc.summary } : {}),
+            ...(row.deprecated ? { deprecated: true } : {}),
+        };
+    });
+}
+
 export function getContext(db: Database.Database, symbolName: string): ContextResult | null {
     // Find the symbol (prefer exported, highest pagerank)
     const sym = db.prepare(`
         SELECT s.id, s.name, s.qualified_name, s.kind, f.path as file,
-               s.line_start, s.line_end, s.signature, s.docstring, s.content as code,
-               s.file_id
+               s.line_start, s.line_end, s.signature, s.signature_info, s.docstring, s.doc, s.deprecated,
+               s.content as code, s.file_id
         FROM symbols s
         JOIN files f ON f.id = s.file_id
         LEFT JOIN rankings r ON r.symbol_id = s.id
@@ -117,7 +459,7 @@ export function getContext(db: Database.Database, symbolName: string): ContextRe
     const deps = db.prepare(`
         SELECT s.name, s.qualified_name, s.kind, f.path as file,
                s.line_start, s.line_end, s.signature,
-               COALESCE(r.pagerank, 0) as pagerank
+               COALESCE(r.pagerank, 0) as pagerank, e.kind as relation
         FROM edges e
         JOIN symbols s ON s.id = e.to_id
         JOIN files f ON f.id = s.file_id
@@ -129,7 +471,7 @@ export function getContext(db: Database.Database, symbolName: string): ContextRe
     const dependents = db.prepare(`
         SELECT s.name, s.qualified_name, s.kind, f.path as file,
                s.line_start, s.line_end, s.signature,
-               COALESCE(r.pagerank, 0) as pagerank
+               COALESCE(r.pagerank, 0) as pagerank, e.kind as relation
         FROM edges e
         JOIN symbols s ON s.id = e.from_id
         JOIN files f ON f.id = s.file_id
@@ -158,7 +500,10 @@ export function getContext(db: Database.Database, symbolName: string): ContextRe
             lineStart: sym.line_start,
             lineEnd: sym.line_end,
             signature: sym.signature,
+            signatureInfo: sym.signature_info ? JSON.parse(sym.signature_info) : null,
             docstring: sym.docstring,
+            doc: sym.doc ? JSON.parse(sym.doc) : null,
+            deprecated: !!sym.deprecated,
             code: sym.code,
         },
         dependencies: deps,
@@ -167,6 +512,69 @@ export function getContext(db: Database.Database, symbolName: string): ContextRe
     };
 }
 
+export function getTypeHierarchy(
+    db: Database.Database,
+    symbolName: string,
+    direction: 'up' | 'down' | 'both' = 'both',
+    maxDepth: number = 10
+): TypeHierarchyResult | null {
+    const sym = db.prepare(`
+        SELECT s.id, s.name, s.qualified_name, s.kind, f.path as file,
+               s.line_start, s.line_end, s.signature,
+               COALESCE(r.pagerank, 0) as pagerank
+        FROM symbols s
+        JOIN files f ON f.id = s.file_id
+        LEFT JOIN rankings r ON r.symbol_id = s.id
+        WHERE (s.name = ? OR s.qualified_name = ?)
+        ORDER BY EXISTS (SELECT 1 FROM edges e WHERE (e.from_id = s.id OR e.to_id = s.id)
+                         AND e.kind IN ('extends', 'implements')) DESC,
+                 s.exported DESC, COALESCE(r.pagerank, 0) DESC
+        LIMIT 1
+    `).get(symbolName, symbolName) as any;
+
+    if (!sym) return null;
+
+    // Walk extends/implements edges transitively; `from`/`to` pick the direction
+    const walk = (from: 'from_id' | 'to_id', to: 'from_id' | 'to_id') => db.prepare(`
+        WITH RECURSIVE hierarchy(id, depth, relation) AS (
+            SELECT e.${to}, 1, e.kind
+            FROM edges e
+            WHERE e.${from} = ? AND e.kind IN ('extends', 'implements')
+            UNION
+            SELECT e.${to}, h.depth + 1, e.kind
+            FROM edges e
+            JOIN hierarchy h ON e.${from} = h.id
+            WHERE e.kind IN ('extends', 'implements') AND h.depth < ?
+        )
+        SELECT s.name, s.qualified_name, s.kind, f.path as file,
+               s.line_start, s.line_end, s.signature,
+               COALESCE(r.pagerank, 0) as pagerank,
+               MIN(h.depth) as depth, h.relation
+        FROM hierarchy h
+        JOIN symbols s ON s.id = h.id
+        JOIN files f ON f.id = s.file_id
+        LEFT JOIN rankings r ON r.symbol_id = s.id
+        WHERE s.id != ?
+        GROUP BY s.id
+        ORDER BY depth, s.name
+    `).all(sym.id, maxDepth, sym.id) as HierarchyEntry[];
+
+    return {
+        symbol: {
+            name: sym.name,
+            qualifiedName: sym.qualified_name,
+            kind: sym.kind,
+            file: sym.file,
+            lineStart: sym.line_start,
+            lineEnd: sym.line_end,
+            signature: sym.signature,
+            pagerank: sym.pagerank,
+        },
+        supertypes: direction === 'down' ? [] : walk('from_id', 'to_id'),
+        subtypes: direction === 'up' ? [] : walk('to_id', 'from_id'),
+    };
+}
+
 export function getImpact(db: Database.Database, filePath: string, maxDepth: number = 10): ImpactResult[] {
     const stmt = db.prepare(`
         WITH RECURSIVE impact(file_id, depth) AS (
@@ -206,7 +614,8 @@ export function getDeps(db: Database.Database, symbolName: string): SearchResult
     return stmt.all(symbolName, symbolName) as SearchResult[];
 }
 
-export function getRank(db: Database.Database, top: number = 20): SearchResult[] {
+// Generated, minified and vendored files are ranked lower unless `includeGenerated`
+export function getRank(db: Database.Database, top: number = 20, includeGenerated: boolean = false): SearchResult[] {
     const stmt = db.prepare(`
         SELECT s.name, s.qualified_name, s.kind, f.path as file,
                s.line_start, s.line_end, s.signature,
@@ -214,68 +623,222 @@ export function getRank(db: Database.Database, top: number = 20): SearchResult[]
         FROM rankings r
         JOIN symbols s ON s.id = r.symbol_id
         JOIN files f ON f.id = s.file_id
-        WHERE s.kind IN ('function', 'class', 'method', 'interface', 'type')
-        ORDER BY r.pagerank DESC
+        WHERE s.kind IN ('function', 'class', 'method', 'interface', 'type', 'struct', 'trait')
+        ORDER BY r.pagerank * (CASE WHEN f.generated IS NULL THEN 1 ELSE ? END) DESC
         LIMIT ?
     `);
-    return stmt.all(top) as SearchResult[];
+    return stmt.all(includeGenerated ? 1 : GENERATED_WEIGHT, top) as SearchResult[];
 }
 
-export function getModules(db: Database.Database): ModuleResult[] {
-    // Group files by top-level directory
+// Names listed per package in `getPackages`
+const PACKAGE_NAMES_LIMIT = 10;
+
+/**
+ * External packages the project imports, by the number of files importing them, with the
+ * version declared in its manifests.
+ */
+export function getPackages(db: Database.Database, rootDir: string): PackageSummary[] {
+    const declared = readDeclaredPackages(rootDir, manifestDirs(db));
+    const rows = db.prepare(`
+        SELECT package as name, COUNT(DISTINCT file_id) as files, SUM(kind != 'import') as uses
+        FROM external_refs
+        WHERE package IS NOT NULL
+        GROUP BY package
+        ORDER BY files DESC, uses DESC, package
+    `).all() as { name: string; files: number; uses: number }[];
+    const selectNames = db.prepare(`
+        SELECT name FROM external_refs
+        WHERE package = ? AND name NOT IN ('*', 'default')
+        GROUP BY name
+        ORDER BY COUNT(*) DESC, name
+        LIMIT ?
+    `);
+
+    return rows.map(row => {
+        const pkg = declared.get(normalizePackageName(row.name));
+        return {
+            name: row.name,
+            version: pkg?.version ?? null,
+            manifest: pkg?.manifest ?? null,
+            files: row.files,
+            uses: row.uses,
+            names: (selectNames.all(row.name, PACKAGE_NAMES_LIMIT) as { name: string }[]).map(n => n.name),
+        };
+    });
+}
+
+// Directories that may hold the manifest declaring a package: those above files importing one
+function manifestDirs(db: Database.Database, packageName?: string): string[] {
     const files = db.prepare(`
-        SELECT f.id, f.path,
-               CASE WHEN INSTR(f.path, '/') > 0
-                    THEN SUBSTR(f.path, 1, INSTR(f.path, '/') - 1)
-                    ELSE '.'
-               END as module
-        FROM files f
-    `).all() as { id: number; path: string; module: string }[];
-
-    const moduleMap = new Map<string, { fileIds: Set<number>; files: string[] }>();
-    for (const f of files) {
-        if (!moduleMap.has(f.module)) {
-            moduleMap.set(f.module, { fileIds: new Set(), files: [] });
+        SELECT DISTINCT f.path FROM external_refs e JOIN files f ON f.id = e.file_id
+        WHERE e.package IS NOT NULL AND (? IS NULL OR e.package = ?)
+    `).all(packageName ?? null, packageName ?? null) as { path: string }[];
+    const dirs = new Set<string>();
+    for (const file of files) {
+        for (let dir = path.dirname(file.path); dir !== '.' && !dirs.has(dir); dir = path.dirname(dir)) {
+            dirs.add(dir);
         }
-        moduleMap.get(f.module)!.fileIds.add(f.id);
-        moduleMap.get(f.module)!.files.push(f.path);
     }
+    return [...dirs].sort();
+}
 
-    const results: ModuleResult[] = [];
-    for (const [name, data] of moduleMap) {
-        const symbolCount = db.prepare(
-            `SELECT COUNT(*) as cnt FROM symbols WHERE file_id IN (${[...data.fileIds].join(',')})`
-        ).get() as { cnt: number };
-
-        // Find which other modules this module imports from
-        const deps = db.prepare(`
-            SELECT DISTINCT
-                CASE WHEN INSTR(f2.path, '/') > 0
-                     THEN SUBSTR(f2.path, 1, INSTR(f2.path, '/') - 1)
-                     ELSE '.'
-                END as target_module
-            FROM file_deps fd
-            JOIN files f2 ON f2.id = fd.to_file
-            WHERE fd.from_file IN (${[...data.fileIds].join(',')})
-        `).all() as { target_module: string }[];
-
-        results.push({
-            name,
-            fileCount: data.files.length,
-            symbolCount: symbolCount.cnt,
-            importsFrom: deps.map(d => d.target_module).filter(m => m !== name),
-        });
+/**
+ * Where the project uses an external package: the files importing it and each import and
+ * reference through it. `name` narrows this to one imported name and its members, e.g.
+ * `create` for `axios.create()`. Null when nothing imports the package.
+ */
+export function getPackageUsage(
+    db: Database.Database,
+    rootDir: string,
+    packageName: string,
+    name?: string,
+    limit: number = 200
+): PackageUsage | null {
+    const rows = db.prepare(`
+        SELECT f.path as file, e.line, e.col as column, e.kind, e.name,
+               COALESCE(s.qualified_name, s.name) as "from"
+        FROM external_refs e
+        JOIN files f ON f.id = e.file_id
+        LEFT JOIN symbols s ON s.id = e.from_id
+        WHERE e.package = ?
+          AND (? IS NULL OR e.name = ? OR e.name LIKE ? || '.%' OR e.name LIKE ? || '::%')
+        ORDER BY e.kind != 'import', f.path, e.line, e.col
+        LIMIT ?
+    `).all(packageName, name ?? null, name ?? null, name ?? null, name ?? null, limit) as Omit<PackageUse, 'text'>[];
+    if (rows.length === 0) return null;
+
+    const pkg = readDeclaredPackages(rootDir, manifestDirs(db, packageName)).get(normalizePackageName(packageName));
+    const fileLines = new Map<string, string[]>();
+    return {
+        name: packageName,
+        version: pkg?.version ?? null,
+        manifest: pkg?.manifest ?? null,
+        files: [...new Set(rows.map(row => row.file))].sort(),
+        uses: rows.map(row => ({
+            ...row,
+            text: row.line ? readLines(rootDir, row.file, fileLines)[row.line - 1]?.trim().slice(0, 200) || '' : '',
+        })),
+    };
+}
+
+// Imports of the project's own files that resolve to nothing indexed
+export function getBrokenImports(db: Database.Database): BrokenImport[] {
+    return db.prepare(`
+        SELECT f.path as file, MIN(e.line) as line, e.source
+        FROM external_refs e
+        JOIN files f ON f.id = e.file_id
+        WHERE e.package IS NULL AND e.kind = 'import'
+        GROUP BY f.path, e.source
+        ORDER BY f.path, line
+    `).all() as BrokenImport[];
+}
+
+// Workspace packages recorded by the last index
+function workspacePackages(db: Database.Database): WorkspacePackage[] {
+    try {
+        return JSON.parse(getMeta(db, 'workspace') ?? '[]');
+    } catch {
+        return [];
     }
+}
+
+/**
+ * The module each file belongs to: its workspace package, or else its top-level directory.
+ */
+function assignModules(db: Database.Database): { modules: Map<string, Pick<ModuleResult, 'name' | 'dir' | 'kind'>>; fileModule: Map<number, string> } {
+    const packages = workspacePackages(db);
+    const files = db.prepare('SELECT id, path FROM files').all() as { id: number; path: string }[];
 
+    const modules = new Map<string, Pick<ModuleResult, 'name' | 'dir' | 'kind'>>();
+    const fileModule = new Map<number, string>();
+    for (const f of files) {
+        const pkg = findWorkspacePackage(packages, f.path);
+        const topLevel = f.path.includes('/') ? f.path.slice(0, f.path.indexOf('/')) : '.';
+        const module = pkg
+            ? { name: pkg.name, dir: pkg.dir || '.', kind: pkg.kind }
+            : { name: topLevel, dir: topLevel, kind: 'directory' as const };
+        // A directory sharing a package's name stays apart from it
+        const key = `${module.kind}:${module.name}`;
+        if (!modules.has(key)) modules.set(key, module);
+        fileModule.set(f.id, key);
+    }
+    return { modules, fileModule };
+}
+
+export function getModules(db: Database.Database): ModuleResult[] {
+    const { modules, fileModule } = assignModules(db);
+
+    const counts = new Map<string, { files: number; symbols: number; imports: Set<string> }>();
+    for (const key of modules.keys()) counts.set(key, { files: 0, symbols: 0, imports: new Set() });
+    for (const key of fileModule.values()) counts.get(key)!.files++;
+
+    const symbolCounts = db.prepare('SELECT file_id, COUNT(*) as cnt FROM symbols GROUP BY file_id').all() as { file_id: number; cnt: number }[];
+    for (const row of symbolCounts) {
+        const key = fileModule.get(row.file_id);
+        if (key) counts.get(key)!.symbols += row.cnt;
+    }
+
+    // Which other modules each module imports from
+    const deps = db.prepare('SELECT from_file, to_file FROM file_deps').all() as { from_file: number; to_file: number }[];
+    for (const dep of deps) {
+        const from = fileModule.get(dep.from_file);
+        const to = fileModule.get(dep.to_file);
+        if (from && to && from !== to) counts.get(from)!.imports.add(modules.get(to)!.name);
+    }
+
+    const results: ModuleResult[] = [];
+    for (const [key, module] of modules) {
+        const count = counts.get(key)!;
+        results.push({ ...module, fileCount: count.files, symbolCount: count.symbols, importsFrom: [...count.imports] });
+    }
     return results.sort((a, b) => b.symbolCount - a.symbolCount);
 }
 
+// `src/ (12 files)` for a directory, `@acme/ui (packages/ui/, 12 files)` for a workspace package
+export function formatModule(module: ModuleResult, details: string[]): string {
+    return module.kind === 'directory'
+        ? `${module.name}/ (${details.join(', ')})`
+        : `${module.name} (${[module.dir + '/', ...details].join(', ')})`;
+}
+
+/**
+ * Dependencies between workspace packages, counted from the file-level imports crossing
+ * them. Null for a project without workspaces.
+ */
+export function getPackageGraph(db: Database.Database): PackageGraph | null {
+    const { modules, fileModule } = assignModules(db);
+    const packages = [...modules.entries()].filter(([, m]) => m.kind !== 'directory');
+    if (packages.length === 0) return null;
+
+    const fileCounts = new Map<string, number>();
+    for (const key of fileModule.values()) fileCounts.set(key, (fileCounts.get(key) ?? 0) + 1);
+
+    const imports = new Map<string, { from: string; to: string; imports: number }>();
+    const deps = db.prepare('SELECT from_file, to_file FROM file_deps').all() as { from_file: number; to_file: number }[];
+    for (const dep of deps) {
+        const from = modules.get(fileModule.get(dep.from_file) ?? '');
+        const to = modules.get(fileModule.get(dep.to_file) ?? '');
+        if (!from || !to || from === to || from.kind === 'directory' || to.kind === 'directory') continue;
+        const key = `${from.name}\0${to.name}`;
+        if (!imports.has(key)) imports.set(key, { from: from.name, to: to.name, imports: 0 });
+        imports.get(key)!.imports++;
+    }
+
+    return {
+        packages: packages
+            .map(([key, m]) => ({ name: m.name, dir: m.dir, kind: m.kind as WorkspacePackage['kind'], fileCount: fileCounts.get(key) ?? 0 }))
+            .sort((a, b) => a.name.localeCompare(b.name)),
+        dependencies: [...imports.values()].sort((a, b) => a.from.localeCompare(b.from) || b.imports - a.imports),
+    };
+}
+
 export function getStats(db: Database.Database): Stats {
     const files = (db.prepare('SELECT COUNT(*) as cnt FROM files').get() as any).cnt;
+    const generatedFiles = (db.prepare('SELECT COUNT(*) as cnt FROM files WHERE generated IS NOT NULL').get() as any).cnt;
     const symbols = (db.prepare('SELECT COUNT(*) as cnt FROM symbols').get() as any).cnt;
     const edges = (db.prepare('SELECT COUNT(*) as cnt FROM edges').get() as any).cnt;
     const fileDeps = (db.prepare('SELECT COUNT(*) as cnt FROM file_deps').get() as any).cnt;
-    return { files, symbols, edges, fileDeps };
+    return { files, generatedFiles, symbols, edges, fileDeps };
 }
 
 export function brief(db: Database.Database): string {
@@ -296,7 +859,7 @@ export function brief(db: Database.Database): string {
     }
 
     if (modules.length > 0) {
-        lines.push(`Modules: ${modules.slice(0, 8).map(m => `${m.name}/ (${m.fileCount} files)`).join(', ')}`);
+        lines.push(`Modules: ${modules.slice(0, 8).map(m => formatModule(m, [`${m.fileCount} files`])).join(', ')}`);
     }
 
     if (topSymbols.length > 0) {
@@ -373,18 +936,51 @@ function withDb<T>(rootDir: string, fn: (db: Database.Database) => T): T {
     }
 }
 
-export function searchFromRoot(rootDir: string, query: string, limit?: number): SearchResult[] {
-    return withDb(rootDir, db => search(db, query, limit));
+export function searchFromRoot(
+    rootDir: string,
+    query: string,
+    limit?: number,
+    excludeDeprecated?: boolean,
+    includeGenerated?: boolean
+): SearchResult[] {
+    return withDb(rootDir, db => search(db, query, limit, excludeDeprecated, includeGenerated));
 }
 
 export function getCallersFromRoot(rootDir: string, name: string): SearchResult[] {
     return withDb(rootDir, db => getCallers(db, name));
 }
 
+export function findReferencesFromRoot(
+    rootDir: string,
+    name: string,
+    kind?: string,
+    limit?: number
+): ReferenceResult[] {
+    return withDb(rootDir, db => findReferences(db, rootDir, name, kind, limit));
+}
+
+export function planRenameFromRoot(
+    rootDir: string,
+    name: string,
+    newName: string,
+    file?: string
+): RenamePlan | null {
+    return withDb(rootDir, db => planRename(db, rootDir, name, newName, file));
+}
+
 export function getContextFromRoot(rootDir: string, name: string): ContextResult | null {
     return withDb(rootDir, db => getContext(db, name));
 }
 
+export function getTypeHierarchyFromRoot(
+    rootDir: string,
+    name: string,
+    direction?: 'up' | 'down' | 'both',
+    maxDepth?: number
+): TypeHierarchyResult | null {
+    return withDb(rootDir, db => getTypeHierarchy(db, name, direction, maxDepth));
+}
+
 export function getImpactFromRoot(rootDir: string, file: string, maxDepth?: number): ImpactResult[] {
     return withDb(rootDir, db => getImpact(db, file, maxDepth));
 }
@@ -393,14 +989,26 @@ export function getDepsFromRoot(rootDir: string, name: string): SearchResult[] {
     return withDb(rootDir, db => getDeps(db, name));
 }
 
-export function getRankFromRoot(rootDir: string, top?: number): SearchResult[] {
-    return withDb(rootDir, db => getRank(db, top));
+export function getRankFromRoot(rootDir: string, top?: number, includeGenerated?: boolean): SearchResult[] {
+    return withDb(rootDir, db => getRank(db, top, includeGenerated));
+}
+
+export function getPackagesFromRoot(rootDir: string): { packages: PackageSummary[]; brokenImports: BrokenImport[] } {
+    return withDb(rootDir, db => ({ packages: getPackages(db, rootDir), brokenImports: getBrokenImports(db) }));
+}
+
+export function getPackageUsageFromRoot(rootDir: string, packageName: string, name?: string): PackageUsage | null {
+    return withDb(rootDir, db => getPackageUsage(db, rootDir, packageName, name));
 }
 
 export function getModulesFromRoot(rootDir: string): ModuleResult[] {
     return withDb(rootDir, db => getModules(db));
 }
 
+export function getPackageGraphFromRoot(rootDir: string): PackageGraph | null {
+    return withDb(rootDir, db => getPackageGraph(db));
+}
+
 export function getStatsFromRoot(rootDir: string): Stats {
     return withDb(rootDir, db => getStats(db));
 }
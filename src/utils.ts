@@ -34,3 +34,115 @@ export function truncate(str: string, maxLen: number): string {
     if (str.length <= maxLen) return str;
     return str.slice(0, maxLen) + '...';
 }
+
+/**
+ * Parse JSON that may contain comments and trailing commas (tsconfig.json, jsconfig.json).
+ */
+export function parseJsonc(text: string): any {
+    let out = '';
+    let inString = false;
+    let comma = -1;     // index in `out` of a comma that only whitespace and comments follow
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (inString) {
+            out += ch;
+            if (ch === '\\') {
+                out += text[++i] ?? '';
+            } else if (ch === '"') {
+                inString = false;
+            }
+        } else if (ch === '"') {
+            inString = true;
+            comma = -1;
+            out += ch;
+        } else if (ch === '/' && text[i + 1] === '/') {
+            while (i < text.length && text[i] !== '\n') i++;
+            out += '\n';
+        } else if (ch === '/' && text[i + 1] === '*') {
+            i += 2;
+            while (i < text.length && !(text[i] === '*' && text[i + 1] === '/')) i++;
+            i++;
+        } else if (/\s/.test(ch)) {
+            out += ch;
+        } else {
+            // A trailing comma before `}` or `]` is dropped
+            if ((ch === '}' || ch === ']') && comma !== -1) out = out.slice(0, comma) + out.slice(comma + 1);
+            comma = ch === ',' ? out.length : -1;
+            out += ch;
+        }
+    }
+    return JSON.parse(out);
+}
+
+/**
+ * Translate one path glob, with gitignore semantics. `*`, `?` and `[...]` never cross a
+ * slash; `**` as a whole segment spans any number of directories; `{a,b}` picks an
+ * alternative and `\` escapes. Anchored patterns match from the start of the path, others
+ * match the last segments at any depth.
+ */
+export function compileGlob(pattern: string, anchored: boolean): RegExp {
+    let re = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const ch = pattern[i];
+        const segmentStart = i === 0 || pattern[i - 1] === '/';
+        if (ch === '*' && pattern[i + 1] === '*' && segmentStart && (i + 2 === pattern.length || pattern[i + 2] === '/')) {
+            if (i + 2 === pattern.length) {
+                re += '.*';             // trailing `/**`: everything inside
+                i++;
+            } else {
+                re += '(?:.*/)?';       // `**/`: zero or more directories, so `src/**/x` also matches `src/x`
+                i += 2;
+            }
+        } else if (ch === '*') {
+            re += '[^/]*';
+        } else if (ch === '?') {
+            re += '[^/]';
+        } else if (ch === '[') {
+            const end = pattern.indexOf(']', i + 2);
+            if (end === -1) {
+                re += '\\[';
+                continue;
+            }
+            let body = pattern.slice(i + 1, end).replace(/\\/g, '\\\\');
+            if (body.startsWith('!')) body = '^' + body.slice(1);
+            re += `(?!/)[${body}]`;
+            i = end;
+        } else if (ch === '{') {
+            const end = pattern.indexOf('}', i);
+            if (end === -1) {
+                re += '\\{';
+                continue;
+            }
+            const alternatives = pattern.slice(i + 1, end).split(',');
+            re += `(?:${alternatives.map(alt => alt.replace(/[.+^$()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*')).join('|')})`;
+            i = end;
+        } else if (ch === '\\' && i + 1 < pattern.length) {
+            re += pattern[++i].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+        } else {
+            re += ch.replace(/[.+^${}()|\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${re}$`);
+}
+
+/**
+ * Compile a config path glob (see `compileGlob`). A pattern without a slash matches a name
+ * at any depth.
+ */
+export function globToRegExp(glob: string): RegExp {
+    let pattern = glob.replace(/^\.\//, '').replace(/\/$/, '');
+    const anchored = pattern.includes('/');
+    pattern = pattern.replace(/^\//, '');
+    return compileGlob(pattern, anchored);
+}
+
+// True when `relPath` or one of its parent directories matches any of the globs
+export function matchesGlob(relPath: string, globs: RegExp[]): boolean {
+    if (globs.length === 0) return false;
+    const parts = relPath.split(path.sep).join('/').split('/');
+    for (let i = parts.length; i > 0; i--) {
+        const prefix = parts.slice(0, i).join('/');
+        if (globs.some(re => re.test(prefix))) return true;
+    }
+    return false;
+}
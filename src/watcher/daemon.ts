@@ -3,14 +3,10 @@ import * as path from 'path';
 import * as child_process from 'child_process';
 import Database from 'better-sqlite3';
 import { reindexFile } from '../indexer';
-import { isSupportedFile } from '../indexer/parser';
-
-const IGNORE_PATTERNS = [
-    '**/node_modules/**', '**/.git/**', '**/.codex/**', '**/dist/**',
-    '**/build/**', '**/out/**', '**/.next/**', '**/.nuxt/**',
-    '**/__pycache__/**', '**/target/**', '**/vendor/**', '**/coverage/**',
-    '**/.cache/**', '**/tmp/**', '**/temp/**',
-];
+import { createFileFilter } from '../indexer/collector';
+import { IGNORE_FILES } from '../indexer/ignore';
+import { isResolverInput } from '../indexer/resolver';
+import { CONFIG_FILES } from '../config';
 
 export async function startWatcher(
     rootDir: string,
@@ -18,9 +14,25 @@ export async function startWatcher(
     onReindex?: (file: string) => void
 ): Promise<any> {
     const chokidar = await import('chokidar');
+    // The collector's rules, so the watcher never indexes a file a full index would skip
+    let filter = createFileFilter(rootDir);
+
+    // Edits to these change which files are indexed
+    const isFilterSource = (relPath: string) => IGNORE_FILES.includes(path.basename(relPath)) || CONFIG_FILES.includes(relPath);
+
+    // `.codex` is watched for its config file only, never for the index itself
+    const configDirs = CONFIG_FILES.map(name => path.dirname(name)).filter(dir => dir !== '.');
 
     const watcher = chokidar.watch(rootDir, {
-        ignored: IGNORE_PATTERNS,
+        ignored: (fullPath: string, stats?: fs.Stats) => {
+            const relPath = path.relative(rootDir, fullPath);
+            if (!relPath || relPath.startsWith('..')) return false;
+            if (isFilterSource(relPath) || configDirs.includes(relPath)) return false;
+            if (configDirs.includes(path.dirname(relPath))) return true;
+            if (stats) return stats.isDirectory() ? filter.skipDir(relPath) : false;
+            // Not yet known whether it's a directory: only ignore what would be skipped either way
+            return filter.skipDir(relPath) && filter.skipFile(relPath);
+        },
         persistent: true,
         ignoreInitial: true,
         awaitWriteFinish: { stabilityThreshold: 200, pollInterval: 50 },
@@ -28,9 +40,25 @@ export async function startWatcher(
 
     const debounceMap = new Map<string, NodeJS.Timeout>();
 
+    function reloadFilter() {
+        try {
+            filter = createFileFilter(rootDir);
+        } catch (err) {
+            // A half-written or invalid config keeps the previous rules
+            process.stderr.write(`[codex] ${err instanceof Error ? err.message : err}\n`);
+        }
+    }
+
     function handleChange(fullPath: string) {
         const relPath = path.relative(rootDir, fullPath);
-        if (!isSupportedFile(relPath)) return;
+        if (isFilterSource(relPath)) {
+            // Applies to later events; files already indexed are revisited by the next `reindex`
+            reloadFilter();
+            return;
+        }
+        // Size and directory rules are applied by reindexFile, which drops a file that no longer qualifies.
+        // Resolver inputs (go.mod, Cargo.toml, ...) may not be indexed themselves but still relink others.
+        if (filter.skipFile(relPath) && !isResolverInput(relPath)) return;
 
         // Debounce 200ms per file
         const existing = debounceMap.get(relPath);
@@ -49,6 +77,10 @@ export async function startWatcher(
 
     function handleDelete(fullPath: string) {
         const relPath = path.relative(rootDir, fullPath);
+        if (isFilterSource(relPath)) {
+            reloadFilter();
+            return;
+        }
         try {
             reindexFile(rootDir, relPath, db);
         } catch {